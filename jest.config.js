@@ -1,4 +1,4 @@
-module.exports = {
+const project = {
   "roots": [
     "<rootDir>/src"
   ],
@@ -8,4 +8,25 @@ module.exports = {
   "transform": {
     "\\.ts$": "ts-jest"
   },
+};
+
+module.exports = {
+  // The test suite runs twice: with legacy experimentalDecorators, and with
+  // TC39 standard decorators (see tsconfig.standard.json).
+  "projects": [
+    {
+      ...project,
+      "displayName": "legacy",
+      "testPathIgnorePatterns": [
+        "\\.standard\\.test\\.ts$",
+      ],
+    },
+    {
+      ...project,
+      "displayName": "standard",
+      "transform": {
+        "\\.ts$": ["ts-jest", { "tsconfig": "tsconfig.standard.json" }]
+      },
+    },
+  ],
 }
@@ -0,0 +1,113 @@
+/**
+ * A cache keyed by a list of arguments. Each argument position is a level of a
+ * trie: primitive arguments are looked up in a Map, and object arguments in a
+ * WeakMap, so (like in `@Memoize()` with a single object argument) the objects
+ * passed as arguments are not retained from garbage collection.
+ *
+ * Lists of different lengths are different keys, i.e. `["a"]` and `["a",
+ * undefined]` don't clash.
+ */
+export class ArgsTrie<TValue> {
+  private root: TrieNode<TValue> = {};
+
+  get(args: readonly unknown[]): TValue | undefined {
+    return this.find(args, false)?.value;
+  }
+
+  has(args: readonly unknown[]): boolean {
+    return !!this.find(args, false)?.hasValue;
+  }
+
+  set(args: readonly unknown[], value: TValue): this {
+    const node = this.find(args, true)!;
+    node.value = value;
+    node.hasValue = true;
+    return this;
+  }
+
+  delete(args: readonly unknown[]): boolean {
+    const path: TrieNode<TValue>[] = [this.root];
+    for (const arg of args) {
+      const node = childNode(path[path.length - 1], arg, false);
+      if (!node) {
+        return false;
+      }
+
+      path.push(node);
+    }
+
+    const leaf = path[path.length - 1];
+    if (!leaf.hasValue) {
+      return false;
+    }
+
+    leaf.value = undefined;
+    leaf.hasValue = false;
+
+    // Prune the nodes which became empty, so the primitive-keyed Maps don't
+    // grow indefinitely. Nodes with a WeakMap are never pruned, since we can't
+    // know whether it's empty.
+    for (let i = path.length - 1; i > 0; i--) {
+      const node = path[i];
+      if (node.hasValue || node.weak || node.map?.size) {
+        break;
+      }
+
+      const parent = path[i - 1];
+      const arg = args[i - 1];
+      if (arg !== null && typeof arg === "object") {
+        parent.weak!.delete(arg);
+      } else {
+        parent.map!.delete(arg);
+      }
+    }
+
+    return true;
+  }
+
+  clear(): void {
+    this.root = {};
+  }
+
+  private find(
+    args: readonly unknown[],
+    create: boolean
+  ): TrieNode<TValue> | undefined {
+    let node: TrieNode<TValue> | undefined = this.root;
+    for (let i = 0; i < args.length && node; i++) {
+      node = childNode(node, args[i], create);
+    }
+
+    return node;
+  }
+}
+
+interface TrieNode<TValue> {
+  map?: Map<unknown, TrieNode<TValue>>;
+  weak?: WeakMap<object, TrieNode<TValue>>;
+  value?: TValue;
+  hasValue?: boolean;
+}
+
+function childNode<TValue>(
+  node: TrieNode<TValue>,
+  arg: unknown,
+  create: boolean
+): TrieNode<TValue> | undefined {
+  let child: TrieNode<TValue> | undefined;
+  if (arg !== null && typeof arg === "object") {
+    child = node.weak?.get(arg);
+    if (!child && create) {
+      child = {};
+      (node.weak ??= new WeakMap()).set(arg, child);
+    }
+  } else {
+    child = node.map?.get(arg);
+    if (!child && create) {
+      child = {};
+      (node.map ??= new Map()).set(arg, child);
+    }
+  }
+
+  return child;
+}
@@ -0,0 +1,59 @@
+/**
+ * The source of time and the timers scheduler for time-based behavior (like
+ * expiration of cached results). Tests may pass their own implementation to
+ * advance time deterministically.
+ */
+export interface Clock {
+  /** Current time in milliseconds, like Date.now(). */
+  now(): number;
+  /** Schedules a callback; the timer must not keep the process alive. */
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * The clock based on Date.now() and global timers (which are unref-ed). It's
+ * the default one, unless another one is set with `setDefaultClock()`.
+ */
+export const systemClock: Clock = {
+  now() {
+    return Date.now();
+  },
+  setTimeout(callback, ms) {
+    const handle = setTimeout(callback, ms);
+    handle.unref?.();
+    return handle;
+  },
+  clearTimeout(handle) {
+    clearTimeout(handle as ReturnType<typeof setTimeout>);
+  },
+};
+
+let defaultClock: Clock = systemClock;
+
+/**
+ * Sets the clock used by all caches which are not given their own `clock`
+ * option (pass undefined to return to `systemClock`). Each such cache pins the
+ * default clock the first time it deals with time (so its timestamps and
+ * timers never mix clocks), which means the default clock should be set before
+ * the caches are used; changing it later only affects the caches which haven't
+ * dealt with time yet.
+ */
+export function setDefaultClock(clock: Clock | undefined): void {
+  defaultClock = clock ?? systemClock;
+}
+
+/**
+ * Returns the clock passed in the options, or the default one.
+ */
+export function resolveClock(clock: Clock | undefined): Clock {
+  return clock ?? defaultClock;
+}
+
+/**
+ * Returns the clock of a cache (or a store). If it has no clock of its own,
+ * the current default one is assigned to it on the first call.
+ */
+export function pinClock(owner: { clock?: Clock }): Clock {
+  return (owner.clock ??= defaultClock);
+}
@@ -0,0 +1,102 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { resolveClock } from "./Clock";
+import type { Clock } from "./Clock";
+import type { MemoizeStore } from "./MemoizeStore";
+
+/**
+ * A file system backed implementation of MemoizeStore interface: each key is
+ * kept in its own file in `dir` directory, so several processes on the same
+ * machine may share the memoized values. Writes are atomic (via a rename of a
+ * temporary file).
+ */
+export class FileStore implements MemoizeStore {
+  constructor(private dir: string, private clock?: Clock) {}
+
+  async get(key: string): Promise<string | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.fileName(key), "utf8");
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+
+      throw e;
+    }
+
+    const { data, expiresAt } = JSON.parse(contents);
+    if (expiresAt !== null && expiresAt <= this.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    return data;
+  }
+
+  async set(key: string, data: string, ttlMs?: number): Promise<void> {
+    const fileName = this.fileName(key);
+    const tmpFileName = `${fileName}.${process.pid}.${Math.random()}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(
+      tmpFileName,
+      JSON.stringify({
+        key,
+        data,
+        expiresAt: ttlMs !== undefined ? this.now() + ttlMs : null,
+      })
+    );
+    await fs.rename(tmpFileName, fileName);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.fileName(key));
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw e;
+      }
+    }
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+
+      throw e;
+    }
+
+    for (const name of names.filter((name) => name.endsWith(".json"))) {
+      let key: unknown;
+      try {
+        key = JSON.parse(await fs.readFile(join(this.dir, name), "utf8")).key;
+      } catch (e: unknown) {
+        continue; // removed concurrently, or not written by FileStore
+      }
+
+      if (typeof key === "string" && key.startsWith(prefix)) {
+        await this.delete(key);
+      }
+    }
+  }
+
+  /** The current time of the store's clock (the default clock is pinned on
+   * first use, see `setDefaultClock()`). */
+  private now(): number {
+    this.clock ??= resolveClock(undefined);
+    return this.clock.now();
+  }
+
+  private fileName(key: string): string {
+    return join(
+      this.dir,
+      createHash("sha1").update(key).digest("hex") + ".json"
+    );
+  }
+}
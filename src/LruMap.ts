@@ -0,0 +1,55 @@
+/**
+ * A Map which remembers the order in which its keys were used and, when it
+ * grows above `maxSize` elements, evicts the least recently used ones.
+ *
+ * Values for which `canEvict()` returns false (e.g. pending Promises which
+ * other callers may still be coalescing on) are skipped during eviction, so the
+ * map may temporarily hold more than `maxSize` elements.
+ */
+export class LruMap<TKey, TValue> extends Map<TKey, TValue> {
+  constructor(
+    private maxSize: number,
+    private canEvict?: (value: TValue) => boolean,
+    private onEvict?: (key: TKey, value: TValue) => void
+  ) {
+    super();
+  }
+
+  /**
+   * Marks the key as the most recently used one.
+   */
+  touch(key: TKey): void {
+    const value = super.get(key);
+    if (value !== undefined || super.has(key)) {
+      super.delete(key);
+      super.set(key, value!);
+    }
+  }
+
+  set(key: TKey, value: TValue): this {
+    super.delete(key);
+    super.set(key, value);
+    if (this.size > this.maxSize) {
+      this.evict(key);
+    }
+
+    return this;
+  }
+
+  /**
+   * Evicts the least recently used elements, but never the one which has just
+   * been added.
+   */
+  private evict(keepKey: TKey): void {
+    for (const [key, value] of super.entries()) {
+      if (this.size <= this.maxSize) {
+        break;
+      }
+
+      if (key !== keepKey && (!this.canEvict || this.canEvict(value))) {
+        super.delete(key);
+        this.onEvict?.(key, value);
+      }
+    }
+  }
+}
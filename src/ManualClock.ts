@@ -0,0 +1,62 @@
+import type { Clock } from "./Clock";
+
+/**
+ * A Clock for tests: the time only moves forward when `advance()` is called,
+ * and the timers which become due are fired synchronously, in order. It
+ * doesn't touch the global timers, so it doesn't interfere with jest fake
+ * timers (or with `unref()`).
+ */
+export class ManualClock implements Clock {
+  private time: number;
+  private timers: Array<{ at: number; callback: () => void }> = [];
+
+  constructor(now = 0) {
+    this.time = now;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const timer = { at: this.time + Math.max(0, ms), callback };
+    // Keep the timers sorted by the due time (and by the order of scheduling
+    // for the same time).
+    let i = this.timers.length;
+    while (i > 0 && this.timers[i - 1].at > timer.at) {
+      i--;
+    }
+
+    this.timers.splice(i, 0, timer);
+    return timer;
+  }
+
+  clearTimeout(handle: unknown): void {
+    const i = this.timers.indexOf(handle as ManualClock["timers"][number]);
+    if (i >= 0) {
+      this.timers.splice(i, 1);
+    }
+  }
+
+  /**
+   * Moves the time forward by `ms` milliseconds, firing the timers which
+   * become due (including the ones scheduled by the fired callbacks).
+   */
+  advance(ms: number): void {
+    const target = this.time + ms;
+    while (this.timers.length > 0 && this.timers[0].at <= target) {
+      const timer = this.timers.shift()!;
+      this.time = timer.at;
+      timer.callback();
+    }
+
+    this.time = target;
+  }
+
+  /**
+   * The number of scheduled timers which haven't fired yet.
+   */
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+}
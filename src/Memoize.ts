@@ -1,7 +1,32 @@
+import { ArgsTrie } from "./ArgsTrie";
+import { pinClock } from "./Clock";
+import type { Clock } from "./Clock";
+import { LruMap } from "./LruMap";
+import { replayOf } from "./Replay";
+import type { Replay } from "./Replay";
+import { contextHolder } from "./contextHolder";
+import { stableHash } from "./stableHash";
+import { errorCacheMs } from "./MemoizeErrorPolicy";
+import type { MemoizeErrorPolicy } from "./MemoizeErrorPolicy";
+import type { MemoizeHooks } from "./MemoizeHooks";
+import {
+  isSnapshotKey,
+  restoreEntryValue,
+  snapshotEntry,
+} from "./MemoizeSnapshot";
+import type {
+  MemoizeSnapshot,
+  MemoizeSnapshotEntry,
+  MemoizeSnapshotOptions,
+} from "./MemoizeSnapshot";
+import type { MemoizeStore } from "./MemoizeStore";
+import { invalidateTagged, retagEntry, tagEntry } from "./MemoizeTags";
+import type { MemoizeTags, TaggedRemover } from "./MemoizeTags";
+
 /**
  * Additional options for `@Memoize()` decorator.
  */
-export interface MemoizeOptions {
+export interface MemoizeOptions extends MemoizeHooks {
   /** Defaults to `true`. If true, rejected Promises returned from an async
    * method will be removed from the cache as soon as the method finishes. */
   clearOnReject?: boolean;
@@ -11,6 +36,118 @@ export interface MemoizeOptions {
    * multiple parallel executions of some method (e.g. when there is a burst of
    * runs), but we don't want to prevent the method from further running. */
   clearOnResolve?: boolean;
+  /** If set, the memoized values are considered stale after this number of
+   * milliseconds, so the next call re-executes the method. For async methods,
+   * the time is counted from the moment the returned Promise settles, not from
+   * the moment it was created. Stale values are removed lazily, when they're
+   * accessed next time. */
+  ttlMs?: number;
+  /** Defaults to `false`. If true, each read of a memoized value resets its
+   * `ttlMs` expiration time (sliding expiration), so the value only expires
+   * when it's not used for `ttlMs` milliseconds. */
+  ttlSliding?: boolean;
+  /** If set, the storage of values memoized for primitive arguments (or hashes)
+   * becomes an LRU cache: when it grows above this number of elements, the
+   * least recently used ones are evicted. Pending Promises are never evicted,
+   * so parallel calls still coalesce on them. */
+  maxSize?: number;
+  /** Defaults to `false`. Only makes sense together with `ttlMs` for async
+   * methods. If true, when a resolved Promise becomes stale, it's still
+   * returned to the callers, but the method is re-executed in background (only
+   * once, no matter how many callers hit the stale value). When it resolves,
+   * the new value replaces the stale one. If it rejects, the stale value stays
+   * in place (or, if `clearOnReject` is false, the rejected Promise replaces
+   * it). */
+  staleWhileRevalidate?: boolean;
+  /** Defaults to `"instance"`. Defines which objects share the memoized
+   * values:
+   * - `"instance"`: each `this` has its own values (for static methods, each
+   *   class, including subclasses, has its own values);
+   * - `"class"`: all instances of the same class share the values (subclasses
+   *   have their own values);
+   * - `"global"`: there's only one set of values for the method, no matter what
+   *   `this` it's called on;
+   * - `"context"`: each `this` has its own values in each async context started
+   *   with `memoizeContext.run()` (from `fast-typescript-memoize/node`, e.g.
+   *   per HTTP request), and they're dropped when the context ends. Outside of
+   *   any context, nothing is memoized. */
+  scope?: "instance" | "class" | "global" | "context";
+  /** Defaults to `false`. If true and there's no hasher, the memoized values
+   * are keyed by all the arguments of the method, not only by the 1st one. The
+   * values are stored in a trie of Maps (for primitive arguments) and WeakMaps
+   * (for object arguments), so objects passed as arguments are not retained
+   * from garbage collection. This is the way to memoize methods with 2+
+   * arguments without writing a hasher. Trailing undefined arguments are
+   * ignored, so e.g. `method(a)` and `method(a, undefined)` share the slot. */
+  allArgs?: boolean;
+  /** Defaults to `false`. Only makes sense for async methods whose last
+   * declared parameter is an optional `AbortSignal` (without a default value,
+   * since its position is taken from the method's `length`). If true, that
+   * argument is not taken into account when choosing the slot for the memoized
+   * value, and the method always receives its own signal in that position
+   * (even if the caller passes fewer arguments). Instead,
+   * each caller may pass its own signal to abort its own wait for the
+   * (possibly coalesced) Promise, and the method itself receives a separate
+   * signal which fires only when all the callers waiting for the pending
+   * Promise have aborted. */
+  abortable?: boolean;
+  /** Only makes sense for async methods. An external (e.g. shared between
+   * processes) cache backend which sits behind the in-process storage: local
+   * coalescing of parallel calls still works, but on a miss, the store is
+   * consulted first, and only if it doesn't have the value, the method is
+   * executed (and the result is saved to the store, with `ttlMs` if set). The
+   * store keys are built from "ClassName.methodName" label (or `storeKey`)
+   * and the structural hash (see `stableHash()`) of the arguments (or the
+   * hasher's result), so they're shared by all objects of the class. A
+   * non-async method which doesn't return a Promise on its first call never
+   * uses the store (and its values are not turned into Promises). */
+  store?: MemoizeStore;
+  /** The prefix of the keys in `store`, instead of "ClassName.methodName"
+   * label (or the name of the function for `memoize()`). The prefixes must be
+   * unique among the methods and functions which share the store: otherwise,
+   * an error is thrown when the second one is defined. Pass it when the
+   * labels are not unique (e.g. classes with the same name in different
+   * modules, or minified code) or not known (anonymous functions). */
+  storeKey?: string;
+  /** Names of the properties the memoized value is computed from. Assigning
+   * any of them clears all the values memoized for the object. The properties
+   * must be setters or `accessor` fields (plain fields can't be intercepted);
+   * they're looked up in the prototype chain of the class. */
+  dependsOn?: readonly (string | symbol)[];
+  /** Defaults to `false`. If true, while the method is executed, all reads of
+   * other memoized methods and getters (including `@Memoize()` accessor
+   * fields) are recorded as its dependencies, and when any of them is
+   * invalidated (cleared explicitly, by assigning an accessor or a `dependsOn`
+   * property, or transitively), the values memoized by this method are cleared
+   * too, to be recomputed lazily on next access. Only the synchronous part of
+   * the method is tracked. A cycle in the dependencies throws an error with the
+   * chain of the involved properties. */
+  reactive?: boolean;
+  /** If set, errors (both synchronous throws and rejected Promises) are
+   * memoized according to this policy, which takes precedence over
+   * `clearOnReject`: e.g. they may be cached for some time, with exponential
+   * backoff between retries. */
+  onError?: MemoizeErrorPolicy;
+  /** The source of time for `ttlMs` and `onError` expiration. Defaults to the
+   * one set with `setDefaultClock()` (which is `systemClock` by default). */
+  clock?: Clock;
+  /** Tags of the memoized values: a static list, or a function which receives
+   * the same arguments as the method (and `this`) and returns the list. All
+   * the values with a tag, across all memoized methods and objects, are removed
+   * with `Memoize.invalidateTag(tag)` (or only the values of one object, with
+   * `Memoize.invalidateTag(obj, tag)`). Neither the objects nor the object
+   * arguments are retained from garbage collection by the tags. */
+  tags?: MemoizeTags;
+  /** Defaults to auto-detection: if the method returns a single-use iterator
+   * (e.g. a generator object, sync or async), the sequence it produces is
+   * memoized instead of the iterator itself. Each call then returns a new
+   * iterator which replays the items produced so far and pulls the further
+   * items from the original iterator lazily, only once (the consumers of an
+   * async iterator waiting for the same item coalesce on it). If the original
+   * iterator fails, the value is treated like a rejected Promise. If true, any
+   * returned iterable or async iterable is replayed this way (its iterator is
+   * only created once); if false, the returned values are memoized as is. */
+  replay?: boolean;
 }
 
 /**
@@ -30,11 +167,25 @@ export function Memoize<TThis, TValue>(
     ? (this: TThis, ...args: Parameters<TValue>) => unknown
     : (this: TThis) => unknown,
   options?: MemoizeOptions
-): (
-  target: TThis,
-  propertyKey: string | symbol,
-  descriptor: { value?: TValue }
-) => void;
+): (...args: DecoratorArgs<TThis, TValue>) => void;
+
+/**
+ * Remembers the returned value of a decorated method or getter in a hidden
+ * `this` object's property, so next time the method is called, the value will
+ * be returned immediately, without re-executing the method. This also works for
+ * async methods which return a Promise: in this case, multiple parallel calls
+ * to that method will coalesce into one call.
+ *
+ * Almost all `@Memoize()` calls may also omit the hasher function. Then, for
+ * 0-argument methods or getters, the slot for the saved value will be fixed.
+ * For 1-argument methods, the slot will be chosen based on that single
+ * argument's value. With `allArgs: true` option, the slot will be chosen based
+ * on the values of all arguments. With `abortable: true` option, the last
+ * declared (`AbortSignal`) parameter is not counted.
+ */
+export function Memoize<TThis, TValue>(
+  options: MemoizeOptions & ({ allArgs: true } | { abortable: true })
+): (...args: DecoratorArgs<TThis, TValue>) => void;
 
 /**
  * Remembers the returned value of a decorated method or getter in a hidden
@@ -47,14 +198,12 @@ export function Memoize<TThis, TValue>(
  * 0-argument methods or getters, the slot for the saved value will be fixed.
  * For 1-argument methods, the slot will be chosen based on that single
  * argument's value. For methods with 2+ arguments, you must provide your own
- * hasher function.
+ * hasher function (or pass `allArgs: true` option).
  */
 export function Memoize<TThis, TValue>(
   options?: MemoizeOptions
 ): (
-  target: TThis,
-  propertyKey: string | symbol,
-  descriptor: { value?: TValue }
+  ...args: DecoratorArgs<TThis, TValue>
 ) => ((a1: unknown, a2: unknown, ...args: unknown[]) => never) extends TValue
   ? TValue extends (a1: never, a2: never, ...args: never[]) => unknown
     ? "provide-hasher-when-method-has-more-than-one-arg"
@@ -64,239 +213,2169 @@ export function Memoize<TThis, TValue>(
 /**
  * A @Memoize() decorator implementation, inspired by:
  * https://www.npmjs.com/package/typescript-memoize.
+ *
+ * Works in both legacy (`experimentalDecorators`) and TC39 standard decorators
+ * modes; the mode is detected by the arguments the decorator is called with.
  */
 export function Memoize<TThis extends object, TArgs extends any[]>(
   a1?: ((this: TThis, ...args: TArgs) => unknown) | MemoizeOptions,
   a2?: MemoizeOptions
-): (
-  target: TThis,
-  propName: string | symbol,
-  descriptor: TypedPropertyDescriptor<(this: TThis, ...args: TArgs) => any>
-) => void {
+): (...args: DecoratorArgs<TThis, Method<TThis, TArgs>>) => any {
   const [hasher, options] =
     typeof a1 === "function" ? [a1, a2] : [undefined, a1];
-  return (_target, propName, descriptor) => {
-    if (typeof descriptor.value === "function") {
-      descriptor.value = buildNewMethod(
-        descriptor.value,
-        propName,
-        hasher,
-        options
-      );
-    } else if (descriptor.get) {
-      descriptor.get = buildNewMethod(
-        descriptor.get,
-        propName,
-        hasher,
-        options
-      );
-    } else {
-      throw "Only put @Memoize() decorator on a method or get accessor.";
-    }
-  };
+  return (...args) =>
+    args.length === 2 && typeof args[1] === "object"
+      ? decorateStandard(args[0], args[1], hasher, options)
+      : decorateLegacy(
+          ...(args as LegacyDecoratorArgs<TThis, TArgs>),
+          hasher,
+          options
+        );
 }
 
-let counter = 0;
+/**
+ * Arguments of a method, getter or accessor decorator, in both legacy
+ * (`experimentalDecorators`) and TC39 standard decorators modes.
+ */
+type DecoratorArgs<TThis, TValue> =
+  | [
+      target: TThis,
+      propertyKey: string | symbol,
+      descriptor: { value?: TValue }
+    ]
+  | [
+      value: TValue,
+      context:
+        | ClassMethodDecoratorContext<TThis, any>
+        | ClassGetterDecoratorContext<TThis, any>
+        | ClassAccessorDecoratorContext<TThis, any>
+    ];
 
-type PropWeakName = `__memoized_weak_${string}_${number}`;
-type PropMapName = `__memoized_map_${string}_${number}`;
-type PropValName = `__memoized_val_${string}_${number}`;
+type Method<TThis, TArgs extends any[]> = (this: TThis, ...args: TArgs) => any;
+
+type LegacyDecoratorArgs<TThis, TArgs extends any[]> = [
+  target: TThis,
+  propName: string | symbol,
+  descriptor: TypedPropertyDescriptor<Method<TThis, TArgs>>
+];
+
+function decorateLegacy<TThis extends object, TArgs extends any[]>(
+  target: TThis,
+  propName: string | symbol,
+  descriptor: TypedPropertyDescriptor<Method<TThis, TArgs>>,
+  hasher: ((this: TThis, ...args: TArgs) => unknown) | undefined,
+  options: MemoizeOptions | undefined
+): void {
+  const label = methodLabel(target, propName);
+  let newMethod: Function;
+  if (typeof descriptor.value === "function") {
+    newMethod = descriptor.value = buildNewMethod(
+      descriptor.value,
+      propName,
+      label,
+      hasher,
+      options
+    );
+  } else if (descriptor.get) {
+    newMethod = descriptor.get = buildNewMethod(
+      descriptor.get,
+      propName,
+      label,
+      hasher,
+      options
+    );
+  } else {
+    throw "Only put @Memoize() decorator on a method or get accessor.";
+  }
+
+  // In legacy mode, all class members are already defined when the decorator
+  // runs, so the dependencies' setters can be wrapped right away.
+  if (options?.dependsOn) {
+    clearOnAssign(
+      target,
+      options.dependsOn,
+      memoizedMethods.get(newMethod)!,
+      propName
+    );
+  }
+}
+
+function decorateStandard<TThis extends object, TArgs extends any[]>(
+  value: any,
+  context:
+    | ClassMethodDecoratorContext<TThis>
+    | ClassGetterDecoratorContext<TThis>
+    | ClassAccessorDecoratorContext<TThis>,
+  hasher: ((this: TThis, ...args: TArgs) => unknown) | undefined,
+  options: MemoizeOptions | undefined
+): any {
+  const propName = context.name;
+  let memoized: MemoizedMethod;
+  let result: any;
+  if (context.kind === "method" || context.kind === "getter") {
+    result = buildNewMethod(value, propName, undefined, hasher, options);
+    memoized = memoizedMethods.get(result)!;
+  } else if (context.kind === "accessor") {
+    const { get, set } = value as ClassAccessorDecoratorTarget<TThis, unknown>;
+    const newGet = buildNewMethod(get, propName, undefined, hasher, options);
+    memoized = memoizedMethods.get(newGet)!;
+    result = {
+      get: newGet,
+      set(this: TThis, newValue: unknown) {
+        // Assigning the accessor invalidates the memoized value.
+        set.call(this, newValue);
+        clearMemoizedMethod(this, memoized);
+      },
+    };
+  } else {
+    throw "Only put @Memoize() decorator on a method, getter or accessor.";
+  }
+
+  // In standard decorators mode, the class is not known at decoration time,
+  // so we learn its name (and wrap the setters of `dependsOn` properties) when
+  // the class (for static members) or its first instance is initialized.
+  context.addInitializer(function (this: TThis) {
+    if (memoized.label !== undefined) {
+      return;
+    }
+
+    // The label names the class which declares the method, not the class of
+    // the first instance (which may be a subclass).
+    const home = homeObject(this, propName, memoized);
+    setMemoizedLabel(memoized, methodLabel(home, propName));
+    memoized.renameProps(memoized.label!);
+    if (options?.dependsOn) {
+      clearOnAssign(home, options.dependsOn, memoized, propName);
+    }
+  });
+  return result;
+}
 
 /**
- * Builds a new function which will be returned instead of the original
- * decorated method.
+ * Returns the object in the prototype chain of `obj` (including `obj` itself,
+ * for static members) where the memoized method `propName` is defined.
  */
-function buildNewMethod<
-  TThis extends Partial<{
-    [k: PropWeakName]: WeakMap<object, TRet>;
-    [k: PropMapName]: Map<unknown, TRet>;
-    [k: PropValName]: TRet;
-  }>,
-  TArgs extends unknown[],
-  TRet
->(
-  origMethod: (this: TThis, ...args: TArgs) => TRet,
+function homeObject(
+  obj: object,
   propName: string | symbol,
-  hasher?: (...args: TArgs) => unknown,
-  { clearOnReject, clearOnResolve }: MemoizeOptions = {
-    clearOnReject: true,
-    clearOnResolve: false,
+  memoized: MemoizedMethod
+): object {
+  let proto = obj;
+  while (
+    memoizedMethodFromDescriptor(
+      Object.getOwnPropertyDescriptor(proto, propName)
+    ) !== memoized
+  ) {
+    proto = Object.getPrototypeOf(proto);
   }
-): (this: TThis, ...args: TArgs) => TRet {
-  // Depending on the arguments of the method we're memoizing, we use one of 3
-  // storages (with some code boilerplate for performance):
-  // - If the arguments hash (defaults to the 1st argument) is a JS OBJECT, we
-  //   store the memoized value in a WeakMap keyed by that object. It allows JS
-  //   GC to garbage collect that object since it's not retained in the internal
-  //   memoized WeakMap. Motivation: if we lose the object, we obviously can't
-  //   pass it to any method with `Memoize()`, and thus, we anyways won't be
-  //   able to access the memoized value, so WeakMap is a perfect hit here.
-  // - If the arguments hash is of a PRIMITIVE TYPE, we store the memoized value
-  //   in a regular Map. Primitive types (like strings, numbers etc.) can't be
-  //   used as WeakMap keys for obvious reasons.
-  // - And lastly, if it's a NO-ARGUMENTS METHOD, we store the value in a hidden
-  //   object property directly. This is the most frequent use case.
-  const propWeakName: PropWeakName = `__memoized_weak_${propName.toString()}_${counter}`;
-  const propMapName: PropMapName = `__memoized_map_${propName.toString()}_${counter}`;
-  const propValName: PropValName = `__memoized_val_${propName.toString()}_${counter}`;
-  counter++;
 
-  return function (this: TThis, ...args: TArgs): TRet {
-    let value: TRet;
+  return proto;
+}
 
-    if (hasher || args.length > 0) {
-      const hashKey = hasher ? hasher.apply(this, args) : args[0];
-
-      if (hashKey !== null && typeof hashKey === "object") {
-        // Arg (or hash) is an object: WeakMap.
-        if (!this.hasOwnProperty(propWeakName)) {
-          Object.defineProperty(this, propWeakName, {
-            configurable: false,
-            enumerable: false,
-            writable: false,
-            value: new WeakMap(),
-          });
+/**
+ * For each of `dependsOn` properties (found in the prototype chain of
+ * `proto`), defines a setter in `proto` which calls the original setter and
+ * then clears the values memoized by `memoized`. If several memoized methods
+ * depend on the same property, the setter is wrapped only once.
+ */
+function clearOnAssign(
+  proto: object,
+  dependsOn: readonly (string | symbol)[],
+  memoized: MemoizedMethod,
+  propName: string | symbol
+): void {
+  for (const dep of dependsOn) {
+    let descriptor: PropertyDescriptor | undefined;
+    for (
+      let owner = proto;
+      owner && !descriptor;
+      owner = Object.getPrototypeOf(owner)
+    ) {
+      descriptor = Object.getOwnPropertyDescriptor(owner, dep);
+    }
+
+    const origSet = descriptor?.set;
+    if (!origSet) {
+      throw `@Memoize() dependency ${String(dep)} of ${String(
+        propName
+      )} must be a setter or an accessor.`;
+    }
+
+    let dependents = setterDependents.get(origSet);
+    if (!dependents || !proto.hasOwnProperty(dep)) {
+      const newDependents: MemoizedMethod[] = (dependents = []);
+      const set = function (this: object, value: unknown) {
+        origSet.call(this, value);
+        for (const dependent of newDependents) {
+          clearMemoizedMethod(this, dependent);
         }
+      };
+      setterDependents.set(set, newDependents);
+      Object.defineProperty(proto, dep, { ...descriptor, set });
+    }
 
-        const weak = this[propWeakName]!;
-        if (weak.has(hashKey)) {
-          value = weak.get(hashKey)!;
-        } else {
-          value = origMethod.apply(this, args);
+    if (!dependents.includes(memoized)) {
+      dependents.push(memoized);
+    }
+  }
+}
 
-          if (clearOnReject && value instanceof Promise) {
-            value = value.catch(
-              deleteWeakKeyAndRethrow.bind(undefined, weak, hashKey)
-            ) as TRet;
-          }
+/**
+ * Options of `memoize()` function: the same as of `@Memoize()` decorator, plus
+ * the hasher (which is mandatory for functions with 2+ arguments, unless
+ * `allArgs` option is used).
+ */
+export type MemoizeFuncOptions<TThis, TArgs extends unknown[]> = Omit<
+  MemoizeOptions,
+  "scope" | "dependsOn" | "tags"
+> & {
+  hasher?: (this: TThis, ...args: TArgs) => unknown;
+  tags?: MemoizeTags<TThis, TArgs>;
+};
 
-          if (clearOnResolve && value instanceof Promise) {
-            value = value.then(
-              deleteWeakKeyAndReturn.bind(undefined, weak, hashKey)
-            ) as TRet;
-          }
+/**
+ * Methods of the function returned by `memoize()`.
+ */
+export interface MemoizedFunction<
+  TArgs extends unknown[] = unknown[],
+  TThis = unknown
+> {
+  /** Removes all the memoized values. */
+  clear(): void;
+  /** Removes the memoized value for the arguments (they're passed through the
+   * hasher as usual, with the same `this`). Returns true if there was such a
+   * value. */
+  delete(this: TThis, ...args: TArgs): boolean;
+}
 
-          weak.set(hashKey, value);
-        }
-      } else {
-        // Arg (or hash) is a primitive type: Map.
-        if (!this.hasOwnProperty(propMapName)) {
-          Object.defineProperty(this, propMapName, {
-            configurable: false,
-            enumerable: false,
-            writable: false,
-            value: new Map(),
-          });
-        }
+/**
+ * The same as `@Memoize()` decorator, but for standalone functions: returns a
+ * new function which remembers the values returned by `func`. All the features
+ * of `@Memoize()` are supported (hasher, WeakMap storage for object keys,
+ * Promise coalescing etc.); the cache is shared by all callers, no matter what
+ * `this` the function is called on. The returned function also has `clear()`
+ * and `delete(...args)` methods. Its values are counted in `Memoize.stats()`
+ * under the function's name (anonymous functions are not counted there).
+ */
+export function memoize<TThis, TArgs extends unknown[], TRet>(
+  func: (this: TThis, ...args: TArgs) => TRet,
+  ...[options]: TArgs extends [unknown, unknown, ...unknown[]]
+    ? [
+        options: MemoizeFuncOptions<TThis, TArgs> &
+          (
+            | { hasher: (this: TThis, ...args: TArgs) => unknown }
+            | { allArgs: true }
+          )
+      ]
+    : [options?: MemoizeFuncOptions<TThis, TArgs>]
+): ((this: TThis, ...args: TArgs) => TRet) & MemoizedFunction<TArgs, TThis>;
 
-        const map = this[propMapName]!;
-        if (map.has(hashKey)) {
-          value = map.get(hashKey)!;
-        } else {
-          value = origMethod.apply(this, args);
+export function memoize<TThis, TArgs extends unknown[], TRet>(
+  func: (this: TThis, ...args: TArgs) => TRet,
+  { hasher, ...rest }: MemoizeFuncOptions<TThis, TArgs> = {}
+): ((this: TThis, ...args: TArgs) => TRet) & MemoizedFunction<TArgs, TThis> {
+  if (rest.store && rest.storeKey === undefined && !func.name) {
+    throw "memoize() of an anonymous function with store option needs storeKey option.";
+  }
 
-          if (clearOnReject && value instanceof Promise) {
-            value = value.catch(
-              deleteMapKeyAndRethrow.bind(undefined, map, hashKey)
-            ) as TRet;
-          }
+  const newFunc = buildNewMethod<any, TArgs, TRet>(
+    func,
+    func.name || "anonymous",
+    func.name || undefined,
+    hasher,
+    { ...rest, scope: "global" }
+  );
+  const memoized = memoizedMethods.get(newFunc)!;
+  return Object.defineProperties(newFunc, {
+    clear: { value: clearMemoizedMethod.bind(undefined, newFunc, memoized) },
+    delete: {
+      value: function (this: TThis, ...args: TArgs) {
+        return deleteMemoizedValue((this ?? newFunc) as object, memoized, args);
+      },
+    },
+  }) as typeof newFunc & MemoizedFunction<TArgs, TThis>;
+}
 
-          if (clearOnResolve && value instanceof Promise) {
-            value = value.then(
-              deleteMapKeyAndReturn.bind(undefined, map, hashKey)
-            ) as TRet;
-          }
+/**
+ * Ready to use hashers for `@Memoize()`, `memoize()` and (as a `resolver`)
+ * for `memoizeExpireUnused()`.
+ */
+Memoize.hashers = {
+  /** Keys by the structure of all arguments (see `stableHash()`), so e.g. two
+   * equal DTOs built independently hit the same slot. */
+  structural(...args: unknown[]): string {
+    return stableHash(args);
+  },
+};
 
-          map.set(hashKey, value);
-        }
-      }
-    } else {
-      // No arg: plain object property.
-      if (this.hasOwnProperty(propValName)) {
-        value = this[propValName]!;
-      } else {
-        value = origMethod.apply(this, args);
+/**
+ * Drops the values memoized by a `@Memoize()`-decorated method or getter
+ * `propName` of `obj`. If no arguments are passed, all the values memoized for
+ * that method are removed. Otherwise, the arguments are routed through the same
+ * hasher as the method uses, and only the matching slot is removed.
+ */
+Memoize.clear = function clear<TThis extends object, K extends keyof TThis>(
+  obj: TThis,
+  propName: K,
+  ...args: [] | MethodArgs<TThis[K]>
+): void {
+  const memoized = findMemoizedMethod(obj, propName);
+  if (!memoized) {
+    throw `${String(propName)} is not a @Memoize()-decorated method or getter.`;
+  }
 
-        if (clearOnReject && value instanceof Promise) {
-          value = value.catch(
-            deleteObjPropAndRethrow.bind(undefined, this, propValName)
-          ) as TRet;
-        }
+  if (args.length === 0) {
+    clearMemoizedMethod(obj, memoized);
+    return;
+  }
 
-        if (clearOnResolve && value instanceof Promise) {
-          value = value.then(
-            deleteObjPropAndReturn.bind(undefined, this, propValName)
-          ) as TRet;
-        }
+  deleteMemoizedValue(obj, memoized, args);
+};
+
+/**
+ * Removes the value memoized for the arguments (routed through the hasher) by
+ * the method for `obj`. Returns true if there was such a value.
+ */
+function deleteMemoizedValue(
+  obj: object,
+  memoized: MemoizedMethod,
+  args: unknown[]
+): boolean {
+  const holder: any = memoized.holderFor(obj);
+  const noArgs = !memoized.hasher && args.length === 0;
+  const hashKey = noArgs ? undefined : memoized.keyFor(obj, args);
+  const deleted = noArgs
+    ? holder.hasOwnProperty(memoized.propValName) &&
+      delete holder[memoized.propValName]
+    : !!memoized.storageFor(holder, hashKey, false)?.delete(hashKey);
+  memoized.store?.delete(memoized.storeKeyFor(hashKey, noArgs)).catch(noop);
+  invalidateDependents(holder, memoized.propDepsName);
+  return deleted;
+}
+
+/**
+ * Removes the values memoized with `tag` (see `tags` option) by all
+ * `@Memoize()`-decorated methods and getters, `memoize()` and
+ * `memoizeExpireUnused()` functions. If `obj` is passed, only the values of
+ * its `@Memoize()`-decorated methods and getters are removed.
+ */
+function invalidateTag(tag: string): void;
+function invalidateTag(obj: object, tag: string): void;
+function invalidateTag(a1: object | string, a2?: string): void {
+  if (typeof a1 === "string") {
+    invalidateTagged(a1);
+  } else {
+    invalidateTagged(
+      a2!,
+      allMemoizedMethods(a1).map((memoized) => memoized.holderFor(a1))
+    );
+  }
+}
+
+Memoize.invalidateTag = invalidateTag;
+
+/**
+ * Statistics counters of a `@Memoize()`-decorated method or getter. They're
+ * only collected after `Memoize.enableStats()` is called.
+ */
+export interface MemoizeCounters {
+  /** Number of calls which returned a memoized value. */
+  hits: number;
+  /** Number of calls which executed the original method. */
+  misses: number;
+  /** Number of calls which coalesced on a pending memoized Promise. */
+  coalesced: number;
+  /** Number of memoized values removed due to expiration or LRU eviction. */
+  evictions: number;
+  /** Number of memoized Promises which rejected. */
+  rejections: number;
+}
+
+/**
+ * Statistics of a `@Memoize()`-decorated method or getter for one object.
+ */
+export interface MemoizeStats extends MemoizeCounters {
+  /** Number of memoized values currently kept in each storage kind. The
+   * number of values kept in the WeakMap storage is not knowable, since its
+   * keys may be garbage collected at any time. */
+  entries: { val: number; map: number };
+}
+
+/**
+ * What `Memoize.inspect()` reports about one storage of a memoized method.
+ */
+export interface MemoizeStorageInspection {
+  /** - `"val"`: the value of a no-arguments method or getter;
+   * - `"map"`: the values for primitive arguments (or hashes) in a Map;
+   * - `"lru"`: the same, in an LRU Map (when `maxSize` option is set);
+   * - `"weakMap"`: the values for object arguments (or hashes) in a WeakMap;
+   * - `"trie"`: the values keyed by all arguments (`allArgs` option). */
+  kind: "val" | "map" | "lru" | "weakMap" | "trie";
+  /** The name of the hidden property which keeps the storage (like
+   * `__memoized_map_Class.method_17`), as seen in heap snapshots. */
+  propName: string;
+  /** The number of memoized values, or undefined if it's not knowable (for
+   * WeakMaps, whose keys may be garbage collected at any time). */
+  entries?: number;
+  /** How many of the values are Promises which are still pending, and how
+   * many are settled. Undefined when `entries` is, or when some of the values
+   * are Promises whose settlement is not tracked (with `clearOnReject: false`
+   * and no other options which need it). */
+  pending?: number;
+  settled?: number;
+}
+
+/**
+ * What `Memoize.inspect()` reports about one memoized method or getter.
+ */
+export interface MemoizeInspection {
+  /** "ClassName.methodName", or undefined if the class is not known yet. */
+  label: string | undefined;
+  propName: string | symbol;
+  scope: NonNullable<MemoizeOptions["scope"]>;
+  /** The name of the hasher function ("anonymous" if it has no name), or
+   * undefined if there's no hasher. */
+  hasher: string | undefined;
+  /** The storages which currently exist for the object. */
+  storages: MemoizeStorageInspection[];
+}
+
+/**
+ * Returns what all `@Memoize()`-decorated methods and getters of `obj`
+ * (including the ones inherited from parent classes) have memoized for it, to
+ * help debugging: the kinds of the storages, the numbers of memoized values
+ * (where knowable) and the names of the hidden properties.
+ */
+Memoize.inspect = function inspect(obj: object): MemoizeInspection[] {
+  return allMemoizedMethods(obj).map((memoized) => {
+    const holder = memoized.holderFor(obj);
+    const storages: MemoizeStorageInspection[] = [];
+    const valEntry = ownHiddenPropIfExists<Entry<unknown>>(
+      holder,
+      memoized.propValName
+    );
+    if (valEntry) {
+      storages.push({
+        kind: "val",
+        propName: memoized.propValName,
+        ...countEntries([valEntry]),
+      });
+    }
+
+    const map = ownHiddenPropIfExists<Map<unknown, Entry<unknown>>>(
+      holder,
+      memoized.propMapName
+    );
+    if (map) {
+      storages.push({
+        kind: map instanceof LruMap ? "lru" : "map",
+        propName: memoized.propMapName,
+        ...countEntries(map.values()),
+      });
+    }
+
+    if (holder.hasOwnProperty(memoized.propWeakName)) {
+      storages.push({ kind: "weakMap", propName: memoized.propWeakName });
+    }
+
+    if (holder.hasOwnProperty(memoized.propTrieName)) {
+      storages.push({ kind: "trie", propName: memoized.propTrieName });
+    }
+
+    return {
+      label: memoized.label,
+      propName: memoized.propName,
+      scope: memoized.scope,
+      hasher: memoized.hasher && (memoized.hasher.name || "anonymous"),
+      storages,
+    };
+  });
+};
 
-        Object.defineProperty(this, propValName, {
-          configurable: true, // to be able to remove it
-          enumerable: false,
-          writable: false,
-          value,
-        });
+function countEntries(
+  entries: Iterable<Entry<unknown>>
+): Pick<MemoizeStorageInspection, "entries" | "pending" | "settled"> {
+  let count = 0;
+  let pending: number | undefined = 0;
+  for (const entry of entries) {
+    count++;
+    if (entry.pending) {
+      if (pending !== undefined) {
+        pending++;
       }
+    } else if (
+      entry.pending === undefined &&
+      !entry.resolved &&
+      entry.value instanceof Promise
+    ) {
+      // The settlement of this Promise is not tracked.
+      pending = undefined;
     }
+  }
 
-    return value;
+  return {
+    entries: count,
+    pending,
+    settled: pending !== undefined ? count - pending : undefined,
   };
 }
 
-//
-// Below are helper functions to just not use "=>" closures and thus control,
-// which variables will be retained from garbage collection.
-//
+/**
+ * Turns collection of statistics for all `@Memoize()`-decorated methods on or
+ * off. It's off by default, to not waste CPU on counting.
+ */
+Memoize.enableStats = function enableStats(enabled = true): void {
+  statsEnabled = enabled;
+};
 
-function deleteWeakKeyAndRethrow(
-  weak: WeakMap<object, unknown>,
-  key: object,
-  e: unknown
-): never {
-  weak.delete(key);
-  throw e;
+/**
+ * Returns statistics of a `@Memoize()`-decorated method or getter `propName`
+ * for `obj`. Without arguments, returns the counters of all memoized methods
+ * of all objects, aggregated by "ClassName.methodName" labels.
+ */
+function stats(): Record<string, MemoizeCounters>;
+function stats<TThis extends object>(
+  obj: TThis,
+  propName: keyof TThis
+): MemoizeStats;
+function stats(
+  obj?: object,
+  propName?: PropertyKey
+): MemoizeStats | Record<string, MemoizeCounters> {
+  if (!obj) {
+    const result: Record<string, MemoizeCounters> = {};
+    for (const [label, counters] of statsRegistry) {
+      result[label] = { ...counters };
+    }
+
+    return result;
+  }
+
+  const memoized = findMemoizedMethod(obj, propName!);
+  if (!memoized) {
+    throw `${String(propName)} is not a @Memoize()-decorated method or getter.`;
+  }
+
+  const holder = memoized.holderFor(obj);
+  return {
+    ...(memoized.perObjectCounters.get(holder) ?? newCounters()),
+    entries: {
+      val: holder.hasOwnProperty(memoized.propValName) ? 1 : 0,
+      map:
+        ownHiddenPropIfExists<Map<unknown, unknown>>(
+          holder,
+          memoized.propMapName
+        )?.size ?? 0,
+    },
+  };
 }
 
-function deleteMapKeyAndRethrow(
-  map: Map<unknown, unknown>,
-  key: unknown,
-  e: unknown
-): never {
-  map.delete(key);
-  throw e;
+Memoize.stats = stats;
+
+/**
+ * Executes `func` so that the first `@Memoize()`-decorated method or getter
+ * (or `memoize()` function) it calls bypasses the memoized value: the original
+ * method is executed, and its result replaces the memoized one (e.g. to see
+ * fresh data right after a write, while the others keep using the cache). If
+ * there's a pending Promise of another forced call for the same slot, the call
+ * coalesces on it instead. The calls made by the original method itself use
+ * the cache as usual.
+ *
+ * It's literally the first memoized call made synchronously by `func`: if an
+ * argument expression reads a memoized getter (e.g. `obj.load(obj.id)`), the
+ * getter is the one forced, and nothing is forced after an `await`. Prefer
+ * `Memoize.refresh()`, which targets the exact method.
+ */
+Memoize.fresh = function fresh<T>(func: () => T): T {
+  forceNext = true;
+  try {
+    return func();
+  } finally {
+    forceNext = undefined;
+  }
+};
+
+/**
+ * Executes a `@Memoize()`-decorated method or getter `propName` of `obj`
+ * bypassing the memoized value, and returns the new value, which replaces the
+ * memoized one. If there's a pending Promise of another forced call for the
+ * same slot, the call coalesces on it instead. The calls made by the original
+ * method itself use the cache as usual.
+ */
+Memoize.refresh = function refresh<TThis extends object, K extends keyof TThis>(
+  obj: TThis,
+  propName: K,
+  ...args: MethodArgs<TThis[K]>
+): MethodResult<TThis[K]> {
+  const descriptor = findDescriptor(obj, propName);
+  const memoized = memoizedMethodFromDescriptor(descriptor);
+  if (!memoized) {
+    throw `${String(propName)} is not a @Memoize()-decorated method or getter.`;
+  }
+
+  forceNext = memoized;
+  try {
+    return descriptor!.get
+      ? descriptor!.get.call(obj)
+      : descriptor!.value.apply(obj, args);
+  } finally {
+    forceNext = undefined;
+  }
+};
+
+/**
+ * Returns the value memoized by a `@Memoize()`-decorated method or getter
+ * `propName` of `obj` for the arguments (routed through the hasher as usual),
+ * without executing the method if there's no such value: then, undefined is
+ * returned. Expired values and memoized errors are also reported as undefined.
+ * Doesn't count as a hit and doesn't affect the LRU order.
+ */
+Memoize.peek = function peek<TThis extends object, K extends keyof TThis>(
+  obj: TThis,
+  propName: K,
+  ...args: MethodArgs<TThis[K]>
+): MethodResult<TThis[K]> | undefined {
+  const memoized = findMemoizedMethod(obj, propName);
+  if (!memoized) {
+    throw `${String(propName)} is not a @Memoize()-decorated method or getter.`;
+  }
+
+  const holder = memoized.holderFor(obj);
+  let entry: Entry<unknown> | undefined;
+  if (memoized.hasher || args.length > 0) {
+    const hashKey = memoized.keyFor(obj, args);
+    entry = memoized.storageFor(holder, hashKey, false)?.get(hashKey);
+  } else {
+    entry = new PropStorage(memoized.propValName).get(holder);
+  }
+
+  return entry &&
+    !entry.thrown &&
+    (entry.expiresAt ?? Infinity) > pinClock(memoized).now()
+    ? ((entry.replay ? entry.replay.cursor() : entry.value) as MethodResult<
+        TThis[K]
+      >)
+    : undefined;
+};
+
+/**
+ * Drops the values memoized by all `@Memoize()`-decorated methods and getters
+ * of `obj`, including the ones inherited from parent classes.
+ */
+Memoize.clearAll = function clearAll(obj: object): void {
+  for (const memoized of allMemoizedMethods(obj)) {
+    clearMemoizedMethod(obj, memoized);
+  }
+};
+
+/**
+ * Exports the values memoized for `obj` by all its `@Memoize()`-decorated
+ * methods and getters to a JSON-compatible structure, e.g. to restore them
+ * with `Memoize.restore()` in the next run of the process. Only the values of
+ * no-arguments methods and of primitive (JSON-compatible) arguments or hashes
+ * are exported; the values memoized for object arguments (in WeakMaps), pending
+ * and rejected Promises, and memoized errors are skipped. By default, the
+ * values must be JSON-compatible, unless a `serializer` is passed.
+ */
+Memoize.snapshot = function snapshot(
+  obj: object,
+  { serializer }: MemoizeSnapshotOptions = {}
+): MemoizeSnapshot {
+  const result: MemoizeSnapshot = {};
+  for (const memoized of allMemoizedMethods(obj)) {
+    const now = pinClock(memoized).now();
+    const holder = memoized.holderFor(obj);
+    const entries: MemoizeSnapshotEntry[] = [];
+    const addEntry = (key: unknown, entry: Entry<unknown>, hasKey: boolean) => {
+      if (
+        entry.pending ||
+        entry.replay ||
+        entry.thrown ||
+        entry.failures !== undefined ||
+        (entry.expiresAt ?? Infinity) <= now
+      ) {
+        return;
+      }
+
+      const snapshotted = snapshotEntry(
+        entry.value,
+        entry.resolved,
+        serializer
+      );
+      if (snapshotted) {
+        if (hasKey) {
+          snapshotted.key = key as MemoizeSnapshotEntry["key"];
+        }
+
+        if (entry.expiresAt !== undefined) {
+          snapshotted.expiresAt = entry.expiresAt;
+        }
+
+        entries.push(snapshotted);
+      }
+    };
+
+    const valEntry = ownHiddenPropIfExists<Entry<unknown>>(
+      holder,
+      memoized.propValName
+    );
+    if (valEntry) {
+      addEntry(undefined, valEntry, false);
+    }
+
+    const map = ownHiddenPropIfExists<Map<unknown, Entry<unknown>>>(
+      holder,
+      memoized.propMapName
+    );
+    for (const [key, entry] of map ?? []) {
+      if (isSnapshotKey(key)) {
+        addEntry(key, entry, true);
+      }
+    }
+
+    if (entries.length > 0 && memoized.label !== undefined) {
+      result[memoized.label] = entries;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Imports the values exported by `Memoize.snapshot()` to `obj`, so the
+ * corresponding methods and getters return them without being executed. The
+ * entries which have already expired are skipped, and the others keep their
+ * expiration time.
+ */
+Memoize.restore = function restore(
+  obj: object,
+  snapshot: MemoizeSnapshot,
+  { serializer }: MemoizeSnapshotOptions = {}
+): void {
+  for (const memoized of allMemoizedMethods(obj)) {
+    const now = pinClock(memoized).now();
+    const entries =
+      memoized.label !== undefined && snapshot.hasOwnProperty(memoized.label)
+        ? snapshot[memoized.label]
+        : undefined;
+    if (!entries) {
+      continue;
+    }
+
+    const holder = memoized.holderFor(obj);
+    for (const snapshotted of entries) {
+      if ((snapshotted.expiresAt ?? Infinity) <= now) {
+        continue;
+      }
+
+      const [value, resolved] = restoreEntryValue(snapshotted, serializer);
+      const entry: Entry<unknown> = {
+        value,
+        resolved,
+        expiresAt: snapshotted.expiresAt,
+      };
+      if ("key" in snapshotted) {
+        memoized
+          .storageFor(holder, snapshotted.key, true)!
+          .set(snapshotted.key, entry);
+      } else {
+        new PropStorage(memoized.propValName).set(holder, entry);
+      }
+
+      if (Array.isArray(memoized.tags)) {
+        tagEntry(
+          memoized.tags,
+          holder,
+          "key" in snapshotted ? [snapshotted.key] : [],
+          entry,
+          memoized.removeTagged
+        );
+      }
+    }
+
+    invalidateDependents(holder, memoized.propDepsName);
+  }
+};
+
+type MethodArgs<TValue> = TValue extends (...args: infer TArgs) => unknown
+  ? TArgs
+  : [];
+
+type MethodResult<TValue> = TValue extends (...args: any[]) => infer TRet
+  ? TRet
+  : TValue;
+
+/**
+ * A memoized value together with its expiration metadata.
+ */
+interface Entry<TRet> {
+  value: TRet;
+  /** When the entry becomes stale (clock based). Undefined means that it
+   * never expires, or that it's a Promise which is still pending. */
+  expiresAt?: number;
+  /** True while the memoized Promise is not settled yet. */
+  pending?: boolean;
+  /** For a memoized Promise which has resolved: the value it resolved to. */
+  resolved?: { value: unknown };
+  /** The number of consecutive failures: of the previous calls (while the
+   * Promise is pending), or including this one (when the entry memoizes an
+   * error, see `onError` option). */
+  failures?: number;
+  /** For a memoized synchronous throw: the error to rethrow. */
+  thrown?: { error: unknown };
+  /** True while a stale entry is being refreshed in background. */
+  refreshing?: boolean;
+  /** True if the entry was created by a forced call (see `Memoize.fresh()`),
+   * so other forced calls coalesce on it while it's pending. */
+  forced?: boolean;
+  /** For a memoized iterator: the replay of the sequence it produces (see
+   * `replay` option). */
+  replay?: Replay<unknown>;
+  /** For `abortable` methods, while the Promise is pending: the controller of
+   * the signal passed to the method and the number of callers which may still
+   * abort their wait. */
+  abort?: {
+    controller: AbortController;
+    subscribers: number;
+    unabortable: boolean;
+  };
 }
 
-function deleteObjPropAndRethrow(
-  obj: Record<string, unknown>,
-  key: string,
-  e: unknown
-): never {
-  delete obj[key];
-  throw e;
+/**
+ * The common interface of Map, WeakMap and the hidden object property
+ * storages, so the logic of dealing with entries doesn't depend on the storage
+ * kind.
+ */
+interface Storage<TRet> {
+  get(key: unknown): Entry<TRet> | undefined;
+  set(key: unknown, entry: Entry<TRet>): unknown;
+  delete(key: unknown): boolean;
+  touch?(key: unknown): void;
 }
 
-function deleteWeakKeyAndReturn<T>(
-  weak: WeakMap<object, unknown>,
-  key: object,
-  value: T
-): T {
-  weak.delete(key);
-  return value;
+/**
+ * A storage of no-arguments methods: the entry is kept in a hidden property of
+ * the object, and the object itself is used as the key.
+ */
+class PropStorage<TRet> implements Storage<TRet> {
+  constructor(public propName: PropValName) {}
+
+  get(obj: any): Entry<TRet> | undefined {
+    return obj.hasOwnProperty(this.propName) ? obj[this.propName] : undefined;
+  }
+
+  set(obj: object, entry: Entry<TRet>): void {
+    Object.defineProperty(obj, this.propName, {
+      configurable: true, // to be able to remove it
+      enumerable: false,
+      writable: false,
+      value: entry,
+    });
+  }
+
+  delete(obj: any): boolean {
+    return delete obj[this.propName];
+  }
 }
 
-function deleteMapKeyAndReturn<T>(
-  map: Map<unknown, unknown>,
-  key: unknown,
-  value: T
-): T {
-  map.delete(key);
-  return value;
+/**
+ * What we know about each method built by buildNewMethod(): its normalized
+ * options, its storages (so the values it memoized can be found later by the
+ * method name) and its statistics.
+ */
+interface MemoizedMethod {
+  propName: string | symbol;
+  scope: NonNullable<MemoizeOptions["scope"]>;
+  hasher?: (...args: any[]) => unknown;
+  /** Whether the values are keyed by all arguments in a trie (the key of a
+   * slot is then the arguments array). */
+  trie: boolean;
+  clearOnReject: boolean;
+  clearOnResolve: boolean;
+  ttlMs?: number;
+  onError?: MemoizeErrorPolicy;
+  clock?: Clock;
+  hooks?: MemoizeHooks;
+  store?: MemoizeStore;
+  /** The prefix of the keys in `store` (see `registerStorePrefix()`). */
+  storePrefix: string | undefined;
+  tags?: MemoizeTags;
+  /** Removes a tagged entry from the storages of the holder (see
+   * `invalidateTag()`); the key of a no-arguments method is empty. */
+  removeTagged: TaggedRemover;
+  /** Returns the key in the external store for the storage slot key. */
+  storeKeyFor(hashKey: unknown, noArgs: boolean): string;
+  propWeakName: PropWeakName;
+  propMapName: PropMapName;
+  propValName: PropValName;
+  propTrieName: PropTrieName;
+  /** Hidden property of the holder with the methods which read this one while
+   * being computed in `reactive` mode, and holders of their values. */
+  propDepsName: PropDepsName;
+  /** Changes the names of the hidden properties to include the name (unless
+   * the method has already been called). */
+  renameProps(name: string): void;
+  /** Returns the key of the storage slot for the arguments. */
+  keyFor(obj: object, args: unknown[]): unknown;
+  /** Returns the object which keeps the storages (depends on `scope`). */
+  holderFor(obj: object): object;
+  storageFor(
+    obj: object,
+    hashKey: unknown,
+    create: boolean
+  ): Storage<unknown> | undefined;
+  /** "ClassName.methodName", or undefined if the class is not known yet. */
+  label: string | undefined;
+  totalCounters: MemoizeCounters;
+  perObjectCounters: WeakMap<object, MemoizeCounters>;
 }
 
-function deleteObjPropAndReturn<T>(
-  obj: Record<string, unknown>,
-  key: string,
-  value: T
-): T {
-  delete obj[key];
-  return value;
+const memoizedMethods = new WeakMap<Function, MemoizedMethod>();
+
+/** Setters built by clearOnAssign() and the methods they clear. */
+const setterDependents = new WeakMap<Function, MemoizedMethod[]>();
+
+let statsEnabled = false;
+const statsRegistry = new Map<string, MemoizeCounters>();
+
+/**
+ * Assigns the label to a memoized method and registers its counters in the
+ * stats registry (methods with the same label share the counters).
+ */
+function setMemoizedLabel(memoized: MemoizedMethod, label: string): void {
+  memoized.label = label;
+  const existing = statsRegistry.get(label);
+  if (existing) {
+    memoized.totalCounters = existing;
+  } else {
+    statsRegistry.set(label, memoized.totalCounters);
+  }
+
+  if (memoized.store && memoized.storePrefix === undefined) {
+    registerStorePrefix(memoized, label);
+  }
+}
+
+/** The prefixes of the keys used in each store, and their methods. */
+const storePrefixes = new WeakMap<MemoizeStore, Map<string, MemoizedMethod>>();
+
+/**
+ * Assigns the prefix of the keys in the external store to a memoized method.
+ * Throws if another method already uses the same prefix in that store, since
+ * their values would be mixed up.
+ */
+function registerStorePrefix(memoized: MemoizedMethod, prefix: string): void {
+  let prefixes = storePrefixes.get(memoized.store!);
+  if (!prefixes) {
+    prefixes = new Map();
+    storePrefixes.set(memoized.store!, prefixes);
+  }
+
+  const existing = prefixes.get(prefix);
+  if (existing && existing !== memoized) {
+    throw `Store key prefix "${prefix}" is already used by another memoized method or function: pass a unique storeKey option.`;
+  }
+
+  prefixes.set(prefix, memoized);
+  memoized.storePrefix = prefix;
+}
+
+function newCounters(): MemoizeCounters {
+  return { hits: 0, misses: 0, coalesced: 0, evictions: 0, rejections: 0 };
+}
+
+/**
+ * Calls the corresponding hook (if any) and, if statistics collection is
+ * enabled, increments the counter of the event. The callers check for
+ * `memoized.hooks || statsEnabled` before calling it, to not waste time.
+ */
+function record(
+  memoized: MemoizedMethod,
+  obj: object,
+  counter: keyof MemoizeCounters,
+  key: unknown,
+  error?: unknown
+): void {
+  const hooks = memoized.hooks;
+  if (hooks) {
+    if (counter === "hits" || counter === "coalesced") {
+      hooks.onHit?.(key);
+    } else if (counter === "misses") {
+      hooks.onMiss?.(key);
+    } else if (counter === "evictions") {
+      hooks.onEvict?.(key);
+    } else {
+      hooks.onReject?.(key, error);
+    }
+  }
+
+  if (statsEnabled) {
+    memoized.totalCounters[counter]++;
+    let counters = memoized.perObjectCounters.get(obj);
+    if (!counters) {
+      counters = newCounters();
+      memoized.perObjectCounters.set(obj, counters);
+    }
+
+    counters[counter]++;
+  }
+}
+
+/**
+ * Returns all memoized methods and getters in the prototype chain of `obj`
+ * (including `obj` itself, to support static methods).
+ */
+function allMemoizedMethods(obj: object): MemoizedMethod[] {
+  const result: MemoizedMethod[] = [];
+  for (
+    let proto = obj;
+    proto && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    for (const key of Reflect.ownKeys(proto)) {
+      const memoized = memoizedMethodFromDescriptor(
+        Object.getOwnPropertyDescriptor(proto, key)
+      );
+      if (memoized) {
+        result.push(memoized);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Finds the memoized method or getter `propName` in the prototype chain of
+ * `obj` (including `obj` itself, to support static methods).
+ */
+function findMemoizedMethod(
+  obj: object,
+  propName: PropertyKey
+): MemoizedMethod | undefined {
+  return memoizedMethodFromDescriptor(findDescriptor(obj, propName));
+}
+
+function findDescriptor(
+  obj: object,
+  propName: PropertyKey
+): PropertyDescriptor | undefined {
+  for (let proto = obj; proto; proto = Object.getPrototypeOf(proto)) {
+    const descriptor = Object.getOwnPropertyDescriptor(proto, propName);
+    if (descriptor) {
+      return descriptor;
+    }
+  }
+
+  return undefined;
+}
+
+function memoizedMethodFromDescriptor(
+  descriptor: PropertyDescriptor | undefined
+): MemoizedMethod | undefined {
+  const func =
+    typeof descriptor?.value === "function"
+      ? descriptor.value
+      : descriptor?.get;
+  return func ? memoizedMethods.get(func) : undefined;
+}
+
+/**
+ * Removes all storages of a memoized method from `obj`. The next call to the
+ * method will recreate them from scratch.
+ */
+function clearMemoizedMethod(obj: object, memoized: MemoizedMethod): void {
+  const {
+    propWeakName,
+    propMapName,
+    propValName,
+    propTrieName,
+    propDepsName,
+    holderFor,
+  } = memoized;
+  const holder: any = holderFor(obj);
+  clearStore(holder, memoized);
+  delete holder[propTrieName];
+  delete holder[propWeakName];
+  delete holder[propMapName];
+  delete holder[propValName];
+  invalidateDependents(holder, propDepsName);
+}
+
+/**
+ * Removes the values of the method from its external store (if any): all of
+ * them if the store supports `deletePrefix()`, otherwise the ones which are
+ * also in the holder's storages and have primitive keys.
+ */
+function clearStore(
+  holder: object,
+  { store, storeKeyFor, propMapName, propValName }: MemoizedMethod
+): void {
+  if (!store) {
+    return;
+  }
+
+  const noArgsKey = storeKeyFor(undefined, true);
+  if (store.deletePrefix) {
+    store.delete(noArgsKey).catch(noop);
+    store.deletePrefix(`${noArgsKey}:`).catch(noop);
+    return;
+  }
+
+  if (holder.hasOwnProperty(propValName)) {
+    store.delete(noArgsKey).catch(noop);
+  }
+
+  const map = ownHiddenPropIfExists<Map<unknown, unknown>>(holder, propMapName);
+  for (const key of map?.keys() ?? []) {
+    store.delete(storeKeyFor(key, false)).catch(noop);
+  }
+}
+
+/**
+ * Clears the values of `reactive` methods which read the method (whose
+ * dependents are kept in `propDepsName` property of `holder`) while being
+ * computed. Goes transitively, since clearing a dependent invalidates its own
+ * dependents.
+ */
+function invalidateDependents(holder: any, propDepsName: PropDepsName): void {
+  const dependents = ownHiddenPropIfExists<Dependents>(holder, propDepsName);
+  if (dependents) {
+    // Deleted before recursing, so cycles in the graph don't loop forever.
+    delete holder[propDepsName];
+    for (const [dependent, { refs }] of dependents) {
+      for (const ref of refs) {
+        const dependentHolder = ref.deref();
+        if (dependentHolder) {
+          clearMemoizedMethod(dependentHolder, dependent);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Memoized methods which depend on some other memoized method of a holder, and
+ * the holders of their values.
+ */
+type Dependents = Map<MemoizedMethod, DependentHolders>;
+
+/**
+ * Holders of the values of a dependent method. They're held weakly, so a
+ * long-lived dependency (like a config object) doesn't retain all the objects
+ * which have ever read it from garbage collection.
+ */
+interface DependentHolders {
+  refs: Set<WeakRef<object>>;
+  /** The ref of each holder, so it's added only once. */
+  byHolder: WeakMap<object, WeakRef<object>>;
+  /** When `refs` grows to this size, the refs of collected holders are
+   * removed from it. */
+  pruneAt: number;
+}
+
+/**
+ * A memoized method which is currently being computed, while there's at least
+ * one `reactive` method computing up the stack.
+ */
+interface Computation {
+  memoized: MemoizedMethod;
+  holder: object;
+  key: unknown;
+  reactive: boolean;
+  parent: Computation | undefined;
+}
+
+let computing: Computation | undefined = undefined;
+
+/** Set by `Memoize.fresh()` (true: the next memoized call bypasses the cache)
+ * and `Memoize.refresh()` (the next call of that method bypasses the cache). */
+let forceNext: MemoizedMethod | true | undefined;
+
+/**
+ * Records that the innermost computation (if it's `reactive`) has read the
+ * value of `memoized` kept in `holder`.
+ */
+function trackRead(memoized: MemoizedMethod, holder: object): void {
+  if (computing?.reactive) {
+    const dependents = ownHiddenProp<Dependents>(
+      holder,
+      memoized.propDepsName,
+      newMap
+    );
+    let holders = dependents.get(computing.memoized);
+    if (!holders) {
+      holders = { refs: new Set(), byHolder: new WeakMap(), pruneAt: 16 };
+      dependents.set(computing.memoized, holders);
+    }
+
+    if (!holders.byHolder.has(computing.holder)) {
+      const ref = new WeakRef(computing.holder);
+      holders.byHolder.set(computing.holder, ref);
+      holders.refs.add(ref);
+      if (holders.refs.size >= holders.pruneAt) {
+        pruneDependentHolders(holders);
+      }
+    }
+  }
+}
+
+function pruneDependentHolders(holders: DependentHolders): void {
+  for (const ref of holders.refs) {
+    if (!ref.deref()) {
+      holders.refs.delete(ref);
+    }
+  }
+
+  holders.pruneAt = Math.max(16, holders.refs.size * 2);
+}
+
+/**
+ * Throws if the value of `memoized` for `key` is already being computed up the
+ * stack, reporting the chain of properties which form the cycle.
+ */
+function assertNoCycle(
+  memoized: MemoizedMethod,
+  holder: object,
+  key: unknown
+): void {
+  const chain = [memoized.label];
+  for (let frame = computing; frame; frame = frame.parent) {
+    chain.push(frame.memoized.label);
+    if (
+      frame.memoized === memoized &&
+      frame.holder === holder &&
+      (memoized.trie
+        ? sameArgs(frame.key as unknown[], key as unknown[])
+        : frame.key === key)
+    ) {
+      throw `Cycle in @Memoize() dependencies: ${chain.reverse().join(" -> ")}`;
+    }
+  }
+}
+
+/**
+ * Returns a hidden own property `propName` of `obj`, creating it with
+ * `create(obj)` if it's not there yet.
+ */
+function ownHiddenProp<T>(
+  obj: any,
+  propName: string,
+  create: (obj: any) => T
+): T {
+  if (!obj.hasOwnProperty(propName)) {
+    Object.defineProperty(obj, propName, {
+      configurable: true, // to be able to remove it
+      enumerable: false,
+      writable: false,
+      value: create(obj),
+    });
+  }
+
+  return obj[propName];
+}
+
+function ownHiddenPropIfExists<T>(obj: any, propName: string): T | undefined {
+  return obj.hasOwnProperty(propName) ? obj[propName] : undefined;
+}
+
+/**
+ * Returns a human readable "ClassName.methodName" label of a decorated method
+ * (for static methods, `target` is the class itself).
+ */
+function methodLabel(target: object, propName: string | symbol): string {
+  const cls = typeof target === "function" ? target : target.constructor;
+  return `${cls.name}.${propName.toString()}`;
+}
+
+let counter = 0;
+
+type PropWeakName = `__memoized_weak_${string}_${number}`;
+type PropMapName = `__memoized_map_${string}_${number}`;
+type PropValName = `__memoized_val_${string}_${number}`;
+type PropTrieName = `__memoized_trie_${string}_${number}`;
+type PropDepsName = `__memoized_deps_${string}_${number}`;
+
+/**
+ * Builds a new function which will be returned instead of the original
+ * decorated method.
+ */
+function buildNewMethod<TThis extends object, TArgs extends unknown[], TRet>(
+  origMethod: (this: TThis, ...args: TArgs) => TRet,
+  propName: string | symbol,
+  label: string | undefined,
+  hasher?: (...args: TArgs) => unknown,
+  {
+    clearOnReject = true,
+    clearOnResolve = false,
+    ttlMs,
+    ttlSliding = false,
+    maxSize,
+    staleWhileRevalidate = false,
+    scope = "instance",
+    allArgs = false,
+    abortable = false,
+    store,
+    storeKey,
+    reactive = false,
+    onError,
+    clock,
+    tags,
+    replay,
+    ...hooks
+  }: MemoizeOptions = {}
+): (this: TThis, ...args: TArgs) => TRet {
+  // Depending on the arguments of the method we're memoizing, we use one of 3
+  // storages:
+  // - If the arguments hash (defaults to the 1st argument) is a JS OBJECT, we
+  //   store the memoized value in a WeakMap keyed by that object. It allows JS
+  //   GC to garbage collect that object since it's not retained in the internal
+  //   memoized WeakMap. Motivation: if we lose the object, we obviously can't
+  //   pass it to any method with `Memoize()`, and thus, we anyways won't be
+  //   able to access the memoized value, so WeakMap is a perfect hit here.
+  // - If the arguments hash is of a PRIMITIVE TYPE, we store the memoized value
+  //   in a regular Map (or in an LRU Map when `maxSize` option is set).
+  //   Primitive types (like strings, numbers etc.) can't be
+  //   used as WeakMap keys for obvious reasons.
+  // - And lastly, if it's a NO-ARGUMENTS METHOD, we store the value in a hidden
+  //   object property directly. This is the most frequent use case.
+  // Also, when `allArgs` option is used (and there's no hasher), the values are
+  // stored in a trie keyed by all arguments, which combines Maps and WeakMaps.
+  // The names include "ClassName.methodName" label, so they're recognizable in
+  // heap snapshots. In standard decorators mode, the label is not known yet, so
+  // the names are changed by renameProps() when it's learned.
+  const id = counter++;
+  const name = label ?? propName.toString();
+  let propWeakName: PropWeakName = `__memoized_weak_${name}_${id}`;
+  let propMapName: PropMapName = `__memoized_map_${name}_${id}`;
+  let propValName: PropValName = `__memoized_val_${name}_${id}`;
+  let propTrieName: PropTrieName = `__memoized_trie_${name}_${id}`;
+  let propDepsName: PropDepsName = `__memoized_deps_${name}_${id}`;
+  // Set on the first call: after that, the hidden properties can't be renamed.
+  let called = false;
+
+  const trie = allArgs && !hasher;
+  // Whether the method returns Promises, so its values may go through the
+  // external store: known upfront for async functions, otherwise found out on
+  // the first call.
+  let returnsPromise: boolean | undefined =
+    Object.prototype.toString.call(origMethod) === "[object AsyncFunction]"
+      ? true
+      : undefined;
+  // The position of the AbortSignal parameter of `abortable` methods.
+  const signalIndex = Math.max(origMethod.length - 1, 0);
+
+  const holderFor =
+    scope === "global"
+      ? constantHolder.bind(undefined, {})
+      : scope === "class"
+      ? classHolder
+      : scope === "context"
+      ? contextHolder
+      : instanceHolder;
+  const propStorage = new PropStorage<TRet>(propValName);
+  const newPrimitiveMap =
+    maxSize !== undefined
+      ? (obj: object) =>
+          new LruMap<unknown, Entry<TRet>>(
+            maxSize,
+            isEntrySettled,
+            recordEviction.bind(undefined, memoized, obj)
+          )
+      : newMap;
+
+  function storageFor(
+    obj: object,
+    hashKey: unknown,
+    create: boolean
+  ): Storage<TRet> | undefined {
+    if (trie) {
+      // Keyed by all args: ArgsTrie.
+      return create
+        ? ownHiddenProp(obj, propTrieName, newArgsTrie)
+        : ownHiddenPropIfExists(obj, propTrieName);
+    } else if (hashKey !== null && typeof hashKey === "object") {
+      // Arg (or hash) is an object: WeakMap.
+      return create
+        ? ownHiddenProp(obj, propWeakName, newWeakMap)
+        : ownHiddenPropIfExists(obj, propWeakName);
+    } else {
+      // Arg (or hash) is a primitive type: Map.
+      return create
+        ? ownHiddenProp(obj, propMapName, newPrimitiveMap)
+        : ownHiddenPropIfExists(obj, propMapName);
+    }
+  }
+
+  function renameProps(name: string): void {
+    if (called) {
+      return;
+    }
+
+    propWeakName = `__memoized_weak_${name}_${id}`;
+    propMapName = `__memoized_map_${name}_${id}`;
+    propValName = `__memoized_val_${name}_${id}`;
+    propTrieName = `__memoized_trie_${name}_${id}`;
+    propDepsName = `__memoized_deps_${name}_${id}`;
+    propStorage.propName = propValName;
+    Object.assign(memoized, {
+      propWeakName,
+      propMapName,
+      propValName,
+      propTrieName,
+      propDepsName,
+    });
+  }
+
+  function keyFor(obj: object, args: unknown[]): unknown {
+    return hasher ? hasher.apply(obj, args as TArgs) : trie ? args : args[0];
+  }
+
+  function storeKeyFor(hashKey: unknown, noArgs: boolean): string {
+    const prefix = memoized.storePrefix ?? propName.toString();
+    return noArgs ? prefix : `${prefix}:${stableHash(hashKey)}`;
+  }
+
+  function tagNewEntry(
+    obj: TThis,
+    args: TArgs,
+    holder: object,
+    storage: Storage<TRet>,
+    key: unknown,
+    entry: Entry<unknown>
+  ): void {
+    tagEntry(
+      typeof tags === "function" ? tags.apply(obj, args) : tags!,
+      holder,
+      storage === propStorage ? [] : trie ? (key as unknown[]) : [key],
+      entry,
+      removeTagged
+    );
+  }
+
+  function removeTagged(
+    holder: object,
+    keyParts: unknown[],
+    entry: object
+  ): void {
+    const noArgs = keyParts.length === 0;
+    const key = noArgs ? holder : trie ? keyParts : keyParts[0];
+    const storage = noArgs ? propStorage : storageFor(holder, key, false);
+    if (storage?.get(key) === entry) {
+      storage.delete(key);
+      store?.delete(storeKeyFor(key, noArgs)).catch(noop);
+      invalidateDependents(holder, propDepsName);
+    }
+  }
+
+  /**
+   * Returns the value from the external store or, if it's not there, executes
+   * the method and saves its result to the store.
+   */
+  async function loadThroughStore(
+    obj: TThis,
+    args: TArgs,
+    storeKey: string
+  ): Promise<unknown> {
+    const data = await store!.get(storeKey).catch(returnUndefined);
+    if (data !== undefined) {
+      return store!.deserialize ? store!.deserialize(data) : JSON.parse(data);
+    }
+
+    return saveToStore(origMethod.apply(obj, args), storeKey);
+  }
+
+  /**
+   * Saves the value the Promise resolves with to the external store, and
+   * returns that value.
+   */
+  async function saveToStore(
+    promise: unknown,
+    storeKey: string
+  ): Promise<unknown> {
+    const value = await promise;
+    const newData = store!.serialize
+      ? store!.serialize(value)
+      : JSON.stringify(value);
+    if (newData !== undefined) {
+      store!.set(storeKey, newData, ttlMs).catch(noop);
+    }
+
+    return value;
+  }
+
+  function compute(
+    obj: TThis,
+    args: TArgs,
+    key: unknown,
+    noArgs: boolean,
+    forced: boolean
+  ): TRet {
+    if (!store || returnsPromise === false) {
+      return origMethod.apply(obj, args);
+    }
+
+    if (returnsPromise === undefined || forced) {
+      // The first call of a non-async function (only Promises go to the store,
+      // written through, and non-Promise results never do), or a forced call
+      // (which must not return the value from the store).
+      const result = origMethod.apply(obj, args);
+      if (returnsPromise === undefined) {
+        returnsPromise = result instanceof Promise;
+      }
+
+      return returnsPromise
+        ? (saveToStore(result, storeKeyFor(key, noArgs)) as TRet)
+        : result;
+    }
+
+    return loadThroughStore(obj, args, storeKeyFor(key, noArgs)) as TRet;
+  }
+
+  /**
+   * Executes the method as a computation which records the reads of other
+   * memoized methods (when it's `reactive`) and detects cycles.
+   */
+  function computeTracked(
+    obj: TThis,
+    holder: object,
+    args: TArgs,
+    key: unknown,
+    noArgs: boolean,
+    forced: boolean
+  ): TRet {
+    assertNoCycle(memoized, holder, key);
+    const parent = computing;
+    computing = { memoized, holder, key, reactive, parent };
+    try {
+      return compute(obj, args, key, noArgs, forced);
+    } finally {
+      computing = parent;
+    }
+  }
+
+  const memoized: MemoizedMethod = {
+    propName,
+    scope,
+    hasher,
+    trie,
+    clearOnReject,
+    clearOnResolve,
+    ttlMs,
+    onError,
+    clock,
+    hooks:
+      hooks.onHit || hooks.onMiss || hooks.onEvict || hooks.onReject
+        ? hooks
+        : undefined,
+    store,
+    storePrefix: undefined,
+    tags,
+    removeTagged,
+    storeKeyFor,
+    propWeakName,
+    propMapName,
+    propValName,
+    propTrieName,
+    propDepsName,
+    renameProps,
+    keyFor,
+    holderFor,
+    storageFor,
+    label: undefined,
+    totalCounters: newCounters(),
+    perObjectCounters: new WeakMap(),
+  };
+  if (store && storeKey !== undefined) {
+    registerStorePrefix(memoized, storeKey);
+  }
+
+  if (label !== undefined) {
+    setMemoizedLabel(memoized, label);
+  }
+
+  const newMethod = function (this: TThis, ...args: TArgs): TRet {
+    called = true;
+    const forced = forceNext === true || forceNext === memoized;
+    if (forced) {
+      forceNext = undefined;
+    }
+
+    const holder = scope === "instance" ? this : holderFor(this);
+    let storage: Storage<TRet>;
+    let key: unknown;
+    let signal: AbortSignal | undefined;
+
+    if (abortable) {
+      const arg = args[signalIndex];
+      signal = arg instanceof AbortSignal ? arg : undefined;
+      args = args.slice(0, signalIndex) as TArgs;
+    }
+
+    if (abortable || trie) {
+      trimUndefined(args);
+    }
+
+    if (hasher || args.length > 0) {
+      key = hasher ? hasher.apply(this, args) : trie ? args : args[0];
+      storage = storageFor(holder, key, true)!;
+    } else {
+      // No arg: plain object property.
+      key = holder;
+      storage = propStorage;
+    }
+
+    if (computing) {
+      trackRead(memoized, holder);
+    }
+
+    let failures: number | undefined;
+    let entry = storage.get(key);
+    if (entry && forced && !(entry.forced && entry.pending)) {
+      // The entry will be replaced by the result of the forced call, so the
+      // reactive methods which have read it must be recomputed.
+      entry = undefined;
+      invalidateDependents(holder, propDepsName);
+    }
+
+    if (entry) {
+      storage.touch?.(key);
+
+      if (entry.expiresAt === undefined) {
+        if (memoized.hooks || statsEnabled) {
+          record(memoized, holder, entry.pending ? "coalesced" : "hits", key);
+        }
+
+        return entry.abort
+          ? (subscribeToEntry(storage, key, entry, signal) as TRet)
+          : entry.replay
+          ? (entry.replay.cursor() as TRet)
+          : entry.value;
+      }
+
+      const now = pinClock(memoized).now();
+      if (entry.expiresAt > now) {
+        if (ttlSliding && !entry.failures) {
+          entry.expiresAt = now + ttlMs!;
+        }
+
+        if (memoized.hooks || statsEnabled) {
+          record(memoized, holder, "hits", key);
+        }
+
+        if (entry.thrown) {
+          throw entry.thrown.error;
+        }
+
+        return entry.replay ? (entry.replay.cursor() as TRet) : entry.value;
+      }
+
+      if (
+        staleWhileRevalidate &&
+        !entry.failures &&
+        entry.value instanceof Promise
+      ) {
+        if (!entry.refreshing) {
+          entry.refreshing = true;
+          let freshValue: TRet;
+          try {
+            freshValue = origMethod.apply(
+              this,
+              abortable
+                ? withSignal(args, signalIndex, new AbortController().signal)
+                : args
+            );
+          } catch (e: unknown) {
+            entry.refreshing = false;
+            throw e;
+          }
+
+          Promise.resolve(freshValue).then(
+            replaceStaleEntry.bind(
+              undefined,
+              memoized,
+              holder,
+              storage,
+              key,
+              entry
+            ),
+            failStaleEntry.bind(
+              undefined,
+              memoized,
+              holder,
+              storage,
+              key,
+              entry
+            )
+          );
+        }
+
+        if (memoized.hooks || statsEnabled) {
+          record(memoized, holder, "hits", key);
+        }
+
+        return entry.value;
+      }
+
+      failures = entry.failures;
+      storage.delete(key);
+      invalidateDependents(holder, propDepsName);
+      if (memoized.hooks || statsEnabled) {
+        record(memoized, holder, "evictions", key);
+      }
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason) as TRet;
+    }
+
+    if (memoized.hooks || statsEnabled) {
+      record(memoized, holder, "misses", key);
+    }
+
+    const controller = abortable ? new AbortController() : undefined;
+    const callArgs = controller
+      ? withSignal(args, signalIndex, controller.signal)
+      : args;
+    let value: TRet;
+    try {
+      const noArgs = storage === propStorage;
+      value =
+        computing || reactive
+          ? computeTracked(this, holder, callArgs, key, noArgs, forced)
+          : compute(this, callArgs, key, noArgs, forced);
+    } catch (e: unknown) {
+      if (memoized.hooks || statsEnabled) {
+        record(memoized, holder, "rejections", key, e);
+      }
+
+      const errorEntry =
+        onError && failSync(memoized, storage, key, failures, e);
+      if (errorEntry && tags) {
+        tagNewEntry(this, args, holder, storage, key, errorEntry);
+      }
+
+      throw e;
+    }
+
+    entry = { value };
+    if (failures) {
+      entry.failures = failures;
+    }
+
+    if (controller) {
+      entry.abort = { controller, subscribers: 0, unabortable: false };
+    }
+
+    if (entry.value instanceof Promise) {
+      if (forced) {
+        entry.forced = true;
+      }
+
+      if (
+        forced ||
+        clearOnReject ||
+        clearOnResolve ||
+        ttlMs !== undefined ||
+        maxSize !== undefined ||
+        abortable ||
+        onError ||
+        memoized.hooks ||
+        statsEnabled
+      ) {
+        entry.pending = true;
+        entry.value = entry.value.then(
+          settleEntryAndReturn.bind(undefined, memoized, storage, key, entry),
+          settleEntryAndRethrow.bind(
+            undefined,
+            memoized,
+            holder,
+            storage,
+            key,
+            entry
+          )
+        ) as TRet;
+      }
+    } else {
+      entry.abort = undefined;
+      if (ttlMs !== undefined) {
+        entry.expiresAt = pinClock(memoized).now() + ttlMs;
+      }
+
+      const replayed =
+        replay !== false ? replayOf(entry.value, !!replay) : undefined;
+      if (replayed) {
+        replayed.onError = failReplayEntry.bind(
+          undefined,
+          memoized,
+          holder,
+          storage,
+          key,
+          entry
+        );
+        entry.replay = replayed;
+      }
+    }
+
+    storage.set(key, entry);
+    if (tags) {
+      tagNewEntry(this, args, holder, storage, key, entry);
+    }
+
+    return entry.abort
+      ? (subscribeToEntry(storage, key, entry, signal) as TRet)
+      : entry.replay
+      ? (entry.replay.cursor() as TRet)
+      : entry.value;
+  };
+
+  // Methods which use none of the options needing bookkeeping on every call
+  // get a short hit path: it only reads the storage, and leaves everything
+  // else (misses, forced calls, dependency tracking, stats) to newMethod().
+  const plain =
+    !hasher &&
+    ttlMs === undefined &&
+    maxSize === undefined &&
+    !abortable &&
+    !store &&
+    !reactive &&
+    !memoized.hooks &&
+    !onError &&
+    !tags;
+  const fastMethod = function (this: TThis, ...args: TArgs): TRet {
+    if (forceNext === undefined && computing === undefined && !statsEnabled) {
+      const holder = scope === "instance" ? this : holderFor(this);
+      if (trie) {
+        trimUndefined(args);
+      }
+
+      let entry: Entry<TRet> | undefined;
+      if (args.length > 0) {
+        const key = trie ? args : args[0];
+        entry = storageFor(holder, key, false)?.get(key);
+      } else {
+        entry = propStorage.get(holder);
+      }
+
+      if (entry && entry.expiresAt === undefined && !entry.replay) {
+        return entry.value;
+      }
+    }
+
+    return newMethod.apply(this, args);
+  };
+
+  const result = plain ? fastMethod : newMethod;
+  memoizedMethods.set(result, memoized);
+  return result;
+}
+
+//
+// Below are helper functions to just not use "=>" closures and thus control,
+// which variables will be retained from garbage collection.
+//
+
+function instanceHolder(obj: object): object {
+  return obj;
+}
+
+function classHolder(obj: object): object {
+  return typeof obj === "function" ? obj : obj.constructor;
+}
+
+function constantHolder(holder: object): object {
+  return holder;
+}
+
+function newWeakMap() {
+  return new WeakMap();
+}
+
+function newMap() {
+  return new Map();
+}
+
+function newArgsTrie() {
+  return new ArgsTrie<any>();
+}
+
+function isEntrySettled(entry: Entry<unknown>): boolean {
+  return !entry.pending;
+}
+
+function recordEviction(memoized: MemoizedMethod, obj: object, key: unknown) {
+  invalidateDependents(obj, memoized.propDepsName);
+  if (memoized.hooks || statsEnabled) {
+    record(memoized, obj, "evictions", key);
+  }
+}
+
+function settleEntryAndReturn<T>(
+  memoized: MemoizedMethod,
+  storage: Storage<unknown>,
+  key: unknown,
+  entry: Entry<unknown>,
+  value: T
+): T {
+  entry.resolved = { value };
+  if (entry.failures) {
+    entry.failures = undefined;
+  }
+
+  settleEntry(memoized, storage, key, entry, memoized.clearOnResolve);
+  return value;
+}
+
+function settleEntryAndRethrow(
+  memoized: MemoizedMethod,
+  obj: object,
+  storage: Storage<unknown>,
+  key: unknown,
+  entry: Entry<unknown>,
+  e: unknown
+): never {
+  const failures = (entry.failures ?? 0) + 1;
+  const cacheMs =
+    memoized.onError && errorCacheMs(memoized.onError, e, failures);
+  if (cacheMs !== undefined) {
+    // Negative caching: the rejected Promise stays for a while.
+    entry.pending = false;
+    entry.abort = undefined;
+    entry.failures = failures;
+    entry.expiresAt = pinClock(memoized).now() + cacheMs;
+  } else {
+    settleEntry(
+      memoized,
+      storage,
+      key,
+      entry,
+      memoized.onError ? true : memoized.clearOnReject
+    );
+  }
+
+  if (memoized.hooks || statsEnabled) {
+    record(memoized, obj, "rejections", key, e);
+  }
+
+  throw e;
+}
+
+/**
+ * Called when the original iterator of a replayed entry fails: removes the
+ * entry, like a rejected Promise (unless `clearOnReject` is false).
+ */
+function failReplayEntry(
+  memoized: MemoizedMethod,
+  obj: object,
+  storage: Storage<unknown>,
+  key: unknown,
+  entry: Entry<unknown>,
+  e: unknown
+): void {
+  if (
+    (memoized.onError || memoized.clearOnReject) &&
+    storage.get(key) === entry
+  ) {
+    storage.delete(key);
+  }
+
+  if (memoized.hooks || statsEnabled) {
+    record(memoized, obj, "rejections", key, e);
+  }
+}
+
+/**
+ * Called when a method with `onError` policy throws synchronously: memoizes
+ * the error if the policy allows. Returns the new entry, if any.
+ */
+function failSync(
+  memoized: MemoizedMethod,
+  storage: Storage<unknown>,
+  key: unknown,
+  prevFailures: number | undefined,
+  error: unknown
+): Entry<unknown> | undefined {
+  const failures = (prevFailures ?? 0) + 1;
+  const cacheMs = errorCacheMs(memoized.onError!, error, failures);
+  if (cacheMs === undefined) {
+    return undefined;
+  }
+
+  const entry: Entry<unknown> = {
+    value: undefined,
+    thrown: { error },
+    failures,
+    expiresAt: pinClock(memoized).now() + cacheMs,
+  };
+  storage.set(key, entry);
+  return entry;
+}
+
+/**
+ * Called when a background refresh of a stale entry succeeds.
+ */
+function replaceStaleEntry(
+  memoized: MemoizedMethod,
+  holder: object,
+  storage: Storage<unknown>,
+  key: unknown,
+  entry: Entry<unknown>,
+  value: unknown
+): void {
+  entry.refreshing = false;
+  if (storage.get(key) === entry) {
+    const newEntry: Entry<unknown> = {
+      value: Promise.resolve(value),
+      resolved: { value },
+      expiresAt: pinClock(memoized).now() + memoized.ttlMs!,
+    };
+    storage.set(key, newEntry);
+    retagEntry(entry, newEntry);
+    invalidateDependents(holder, memoized.propDepsName);
+  }
+}
+
+/**
+ * Called when a background refresh of a stale entry fails.
+ */
+function failStaleEntry(
+  memoized: MemoizedMethod,
+  obj: object,
+  storage: Storage<unknown>,
+  key: unknown,
+  entry: Entry<unknown>,
+  e: unknown
+): void {
+  entry.refreshing = false;
+  if (!memoized.clearOnReject && storage.get(key) === entry) {
+    const value = Promise.reject(e);
+    value.catch(noop); // it's up to the callers to handle the rejection
+    const newEntry: Entry<unknown> = {
+      value,
+      expiresAt: pinClock(memoized).now() + memoized.ttlMs!,
+    };
+    storage.set(key, newEntry);
+    retagEntry(entry, newEntry);
+    invalidateDependents(obj, memoized.propDepsName);
+  }
+
+  if (memoized.hooks || statsEnabled) {
+    record(memoized, obj, "rejections", key, e);
+  }
+}
+
+function noop() {}
+
+/**
+ * Compares the argument lists element by element.
+ */
+function sameArgs(a: unknown[], b: unknown[]): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Removes trailing undefined elements of the array (in place).
+ */
+function trimUndefined(args: unknown[]): void {
+  while (args.length > 0 && args[args.length - 1] === undefined) {
+    args.length--;
+  }
+}
+
+/**
+ * Returns the arguments with `signal` at `index` position (args.length must
+ * not be greater than `index`).
+ */
+function withSignal<TArgs extends unknown[]>(
+  args: TArgs,
+  index: number,
+  signal: AbortSignal
+): TArgs {
+  const result: unknown[] = [];
+  for (let i = 0; i < index; i++) {
+    result.push(args[i]);
+  }
+
+  result.push(signal);
+  return result as TArgs;
+}
+
+function returnUndefined() {
+  return undefined;
+}
+
+/**
+ * Returns a Promise which follows the pending Promise of an `abortable` entry,
+ * but rejects earlier if the caller's `signal` aborts. When all the callers
+ * have aborted, aborts the signal passed to the method and removes the entry,
+ * so the next caller doesn't coalesce on the Promise which is being aborted.
+ */
+function subscribeToEntry(
+  storage: Storage<unknown>,
+  key: unknown,
+  entry: Entry<unknown>,
+  signal: AbortSignal | undefined
+): Promise<unknown> {
+  const abort = entry.abort!;
+  if (!signal) {
+    abort.unabortable = true;
+    return entry.value as Promise<unknown>;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  abort.subscribers++;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      reject(signal.reason);
+      abort.subscribers--;
+      if (abort.subscribers === 0 && !abort.unabortable && entry.abort) {
+        if (storage.get(key) === entry) {
+          storage.delete(key);
+        }
+
+        abort.controller.abort(signal.reason);
+      }
+    };
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    (entry.value as Promise<unknown>)
+      .finally(() => signal.removeEventListener("abort", onAbort))
+      .then(resolve, reject);
+  });
+}
+
+/**
+ * Called when a memoized Promise settles: either removes it from the storage
+ * (but only if it hasn't been replaced by another entry in the meantime), or
+ * starts its expiration countdown.
+ */
+function settleEntry(
+  memoized: MemoizedMethod,
+  storage: Storage<unknown>,
+  key: unknown,
+  entry: Entry<unknown>,
+  clear: boolean
+): void {
+  entry.pending = false;
+  entry.abort = undefined;
+  if (clear) {
+    if (storage.get(key) === entry) {
+      storage.delete(key);
+    }
+  } else if (memoized.ttlMs !== undefined) {
+    entry.expiresAt = pinClock(memoized).now() + memoized.ttlMs;
+  }
 }
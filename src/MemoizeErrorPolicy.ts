@@ -0,0 +1,38 @@
+/**
+ * Defines how errors (both synchronous throws and rejections of returned
+ * Promises) are memoized. With a policy, a failure is remembered for some time
+ * (negative caching), so the calls in this period get the same error without
+ * executing the function again, instead of hammering a failing backend.
+ */
+export interface MemoizeErrorPolicy {
+  /** For how many milliseconds a failure is memoized. */
+  cacheMs: number;
+  /** If set, each consecutive failure for the same key multiplies the period
+   * of the previous one by this factor (exponential backoff between retries).
+   * A success resets the period back to `cacheMs`. */
+  backoff?: number;
+  /** The upper limit of the period when `backoff` is used. */
+  maxCacheMs?: number;
+  /** Returns true if the error may be memoized. The other errors are not
+   * memoized at all, so the next call executes the function again. Defaults
+   * to memoizing all errors. */
+  isCacheable?: (error: unknown) => boolean;
+}
+
+/**
+ * Returns for how many milliseconds the error should be memoized, given the
+ * number of consecutive failures (including this one), or undefined if it
+ * shouldn't be memoized.
+ */
+export function errorCacheMs(
+  { cacheMs, backoff, maxCacheMs, isCacheable }: MemoizeErrorPolicy,
+  error: unknown,
+  failures: number
+): number | undefined {
+  if (isCacheable && !isCacheable(error)) {
+    return undefined;
+  }
+
+  const ms = backoff ? cacheMs * backoff ** (failures - 1) : cacheMs;
+  return maxCacheMs !== undefined ? Math.min(ms, maxCacheMs) : ms;
+}
@@ -0,0 +1,17 @@
+/**
+ * Optional instrumentation callbacks accepted by all memoization helpers. They
+ * are only called when passed, so there's no overhead when they're omitted.
+ */
+export interface MemoizeHooks {
+  /** Called when a memoized value is returned without executing the function
+   * (including the case when the caller coalesces on a pending Promise). */
+  onHit?: (key: unknown) => void;
+  /** Called when there is no memoized value, so the function is executed. */
+  onMiss?: (key: unknown) => void;
+  /** Called when a memoized value is removed from the cache automatically:
+   * because it expired, or because it was evicted to free space for others. */
+  onEvict?: (key: unknown) => void;
+  /** Called when the function throws, or when a Promise returned by it
+   * rejects. */
+  onReject?: (key: unknown, error: unknown) => void;
+}
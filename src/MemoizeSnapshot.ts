@@ -0,0 +1,95 @@
+/**
+ * A JSON-compatible export of the values memoized for an object by
+ * `Memoize.snapshot()`, keyed by "ClassName.methodName" labels.
+ */
+export type MemoizeSnapshot = Record<string, MemoizeSnapshotEntry[]>;
+
+/**
+ * One memoized value in a snapshot.
+ */
+export interface MemoizeSnapshotEntry {
+  /** The argument (or the hasher's result) the value is memoized for. Absent
+   * for no-arguments methods and getters. */
+  key?: string | number | boolean | null;
+  /** The value, as returned by the serializer. */
+  value: unknown;
+  /** True if the method returned a Promise, and `value` is what it resolved
+   * to. */
+  async?: boolean;
+  /** The time (by the method's clock, Date.now() based by default) when the
+   * value becomes stale (if it expires). */
+  expiresAt?: number;
+}
+
+/**
+ * Converts memoized values to JSON-compatible ones and back. By default, the
+ * values are put to snapshots as is, so they must be JSON-compatible already.
+ */
+export interface MemoizeSerializer {
+  /** Returns a JSON-compatible representation of the value, or undefined to
+   * skip this value. */
+  serialize(value: unknown): unknown;
+  deserialize(data: unknown): unknown;
+}
+
+/**
+ * Options of snapshot() and restore() functions.
+ */
+export interface MemoizeSnapshotOptions {
+  serializer?: MemoizeSerializer;
+}
+
+/**
+ * Returns true if a storage key can be put to a snapshot as is.
+ */
+export function isSnapshotKey(
+  key: unknown
+): key is string | number | boolean | null {
+  return (
+    key === null ||
+    typeof key === "string" ||
+    typeof key === "boolean" ||
+    (typeof key === "number" && isFinite(key))
+  );
+}
+
+/**
+ * Builds a snapshot entry for a memoized value. Returns undefined if the value
+ * can't be put to a snapshot: it's a pending or rejected Promise, or the
+ * serializer skips it.
+ */
+export function snapshotEntry(
+  value: unknown,
+  resolved: { value: unknown } | undefined,
+  serializer: MemoizeSerializer | undefined
+): MemoizeSnapshotEntry | undefined {
+  const isAsync = value instanceof Promise;
+  if (isAsync) {
+    if (!resolved) {
+      return undefined;
+    }
+
+    value = resolved.value;
+  }
+
+  const data = serializer ? serializer.serialize(value) : value;
+  if (data === undefined) {
+    return undefined;
+  }
+
+  return isAsync ? { value: data, async: true } : { value: data };
+}
+
+/**
+ * Returns the memoized value (and, for async methods, what the Promise
+ * resolved to) of a snapshot entry.
+ */
+export function restoreEntryValue(
+  { value, async }: MemoizeSnapshotEntry,
+  serializer: MemoizeSerializer | undefined
+): [value: unknown, resolved: { value: unknown } | undefined] {
+  const restored = serializer ? serializer.deserialize(value) : value;
+  return async
+    ? [Promise.resolve(restored), { value: restored }]
+    : [restored, undefined];
+}
@@ -0,0 +1,23 @@
+/**
+ * An external (e.g. shared between processes) key-value cache backend which
+ * may be put behind the in-process storage of `@Memoize()` with `store`
+ * option. The values are passed to the store serialized; by default with
+ * JSON.stringify() and JSON.parse(), unless `serialize` and `deserialize` are
+ * provided.
+ */
+export interface MemoizeStore {
+  /** Returns the serialized value, or undefined if there is no such key (or
+   * the value has expired). */
+  get(key: string): Promise<string | undefined>;
+  /** Saves the serialized value. If `ttlMs` is passed, the store should
+   * forget the value after that number of milliseconds. */
+  set(key: string, data: string, ttlMs?: number): Promise<void>;
+  /** Removes the key from the store (if it exists). */
+  delete(key: string): Promise<void>;
+  /** Removes all the keys starting with `prefix`. Used when all the values of
+   * a method are cleared; without it, only the keys of the values present in
+   * the in-process storage (and not keyed by objects) are removed. */
+  deletePrefix?(prefix: string): Promise<void>;
+  serialize?(value: unknown): string;
+  deserialize?(data: string): unknown;
+}
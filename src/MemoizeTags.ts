@@ -0,0 +1,160 @@
+/**
+ * Tags of a memoized value: either a static list, or a function which returns
+ * the list for the arguments (like a hasher). All the values with some tag may
+ * then be removed at once with `Memoize.invalidateTag()`.
+ */
+export type MemoizeTags<TThis = any, TArgs extends unknown[] = any[]> =
+  | readonly string[]
+  | ((this: TThis, ...args: TArgs) => readonly string[]);
+
+/**
+ * Removes the entry from the storage of `owner` (if it's still there). The key
+ * parts are the ones passed to `tagEntry()`.
+ */
+export type TaggedRemover = (
+  owner: object,
+  keyParts: unknown[],
+  entry: object
+) => void;
+
+/**
+ * A registered tagged entry. It doesn't retain the entry, its owner and the
+ * objects in its key from garbage collection.
+ */
+interface TaggedRef {
+  tags: readonly string[];
+  owner: WeakRef<object>;
+  /** Primitive parts of the key as is, and object parts as WeakKey. */
+  keyParts: unknown[];
+  entry: WeakRef<object>;
+  remove: TaggedRemover;
+}
+
+/** An object part of the key, held weakly. */
+class WeakKey {
+  constructor(public ref: WeakRef<object>) {}
+}
+
+const refsByTag = new Map<string, Set<TaggedRef>>();
+const refsByEntry = new WeakMap<object, TaggedRef>();
+/** Created on first use, so the module loads on engines without
+ * FinalizationRegistry (as long as tags aren't used there). */
+let finalizer: FinalizationRegistry<TaggedRef> | undefined;
+
+/**
+ * Registers `entry` of `owner`'s storage under `tags`, so invalidateTagged() can
+ * remove it later with `remove`. The registration disappears by itself when the
+ * entry is garbage collected (e.g. after it's removed from the storage).
+ */
+export function tagEntry(
+  tags: readonly string[],
+  owner: object,
+  keyParts: unknown[],
+  entry: object,
+  remove: TaggedRemover
+): void {
+  if (tags.length === 0) {
+    return;
+  }
+
+  const ref: TaggedRef = {
+    tags,
+    owner: new WeakRef(owner),
+    keyParts: keyParts.map(toWeakKeyPart),
+    entry: new WeakRef(entry),
+    remove,
+  };
+  for (const tag of tags) {
+    let refs = refsByTag.get(tag);
+    if (!refs) {
+      refs = new Set();
+      refsByTag.set(tag, refs);
+    }
+
+    refs.add(ref);
+  }
+
+  refsByEntry.set(entry, ref);
+  finalizer ??= new FinalizationRegistry<TaggedRef>(untagRef);
+  finalizer.register(entry, ref, ref);
+}
+
+/**
+ * Registers `newEntry` under the same tags and key as `oldEntry` (when an entry
+ * is replaced with a fresh one in the same storage slot).
+ */
+export function retagEntry(oldEntry: object, newEntry: object): void {
+  const ref = refsByEntry.get(oldEntry);
+  const owner = ref?.owner.deref();
+  const keyParts = ref && fromWeakKeyParts(ref.keyParts);
+  if (ref && owner && keyParts) {
+    tagEntry(ref.tags, owner, keyParts, newEntry, ref.remove);
+  }
+}
+
+/**
+ * Removes all the entries registered under `tag` (only of the passed owners,
+ * if they're passed).
+ */
+export function invalidateTagged(
+  tag: string,
+  owners?: readonly object[]
+): void {
+  const refs = refsByTag.get(tag);
+  if (!refs) {
+    return;
+  }
+
+  for (const ref of [...refs]) {
+    const owner = ref.owner.deref();
+    if (owners && (!owner || !owners.includes(owner))) {
+      continue;
+    }
+
+    const entry = ref.entry.deref();
+    const keyParts = fromWeakKeyParts(ref.keyParts);
+    if (owner && entry && keyParts) {
+      ref.remove(owner, keyParts, entry);
+    }
+
+    untagRef(ref);
+    finalizer?.unregister(ref);
+  }
+}
+
+function untagRef(ref: TaggedRef): void {
+  for (const tag of ref.tags) {
+    const refs = refsByTag.get(tag);
+    if (refs?.delete(ref) && refs.size === 0) {
+      refsByTag.delete(tag);
+    }
+  }
+}
+
+function toWeakKeyPart(part: unknown): unknown {
+  return (part !== null && typeof part === "object") ||
+    typeof part === "function"
+    ? new WeakKey(new WeakRef(part))
+    : part;
+}
+
+/**
+ * Returns the original key parts, or undefined if some of the objects in the
+ * key have been garbage collected (so the entry can't be in the storage).
+ */
+function fromWeakKeyParts(keyParts: unknown[]): unknown[] | undefined {
+  const result = new Array(keyParts.length);
+  for (let i = 0; i < keyParts.length; i++) {
+    const part = keyParts[i];
+    if (part instanceof WeakKey) {
+      result[i] = part.ref.deref();
+      if (result[i] === undefined) {
+        return undefined;
+      }
+    } else {
+      result[i] = part;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,50 @@
+import { resolveClock } from "./Clock";
+import type { Clock } from "./Clock";
+import type { MemoizeStore } from "./MemoizeStore";
+
+/**
+ * A reference in-memory implementation of MemoizeStore interface. Useful in
+ * tests, or to share memoized values between unrelated objects of the same
+ * process.
+ */
+export class MemoryStore implements MemoizeStore {
+  private map = new Map<string, { data: string; expiresAt?: number }>();
+
+  constructor(private clock?: Clock) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const slot = this.map.get(key);
+    if (slot?.expiresAt !== undefined && slot.expiresAt <= this.now()) {
+      this.map.delete(key);
+      return undefined;
+    }
+
+    return slot?.data;
+  }
+
+  async set(key: string, data: string, ttlMs?: number): Promise<void> {
+    this.map.set(key, {
+      data,
+      expiresAt: ttlMs !== undefined ? this.now() + ttlMs : undefined,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.map.delete(key);
+  }
+
+  /** The current time of the store's clock (the default clock is pinned on
+   * first use, see `setDefaultClock()`). */
+  private now(): number {
+    this.clock ??= resolveClock(undefined);
+    return this.clock.now();
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    for (const key of [...this.map.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.map.delete(key);
+      }
+    }
+  }
+}
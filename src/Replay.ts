@@ -0,0 +1,144 @@
+/**
+ * Turns a single-use iterator (e.g. a generator object) or async iterator into
+ * a sequence which may be iterated any number of times: each `cursor()` starts
+ * from the first item, the items which have already been produced are
+ * replayed from the buffer, and the further items are pulled from the source
+ * lazily, only once (for async iterators, the cursors waiting for the same item
+ * coalesce on one `next()` call of the source).
+ *
+ * When the source throws, the cursors replay the produced items and then throw
+ * the same error. The source is never closed early: a cursor which stops
+ * iterating (e.g. with `break`) doesn't affect the others.
+ */
+export class Replay<T> {
+  private items: T[] = [];
+  /** Set when the source is exhausted (with the value it returned) or has
+   * failed (with the error it threw). */
+  private end?: { value: unknown } | { error: unknown };
+  private pulling?: Promise<void>;
+  /** Called once, when the source fails. */
+  onError?: (error: unknown) => void;
+
+  constructor(
+    private source: Iterator<T> | AsyncIterator<T>,
+    readonly async: boolean
+  ) {}
+
+  /**
+   * Returns a new iterator (or async iterator) over all the items of the
+   * sequence, starting from the first one.
+   */
+  cursor(): Generator<T> | AsyncGenerator<T> {
+    return this.async ? this.asyncCursor() : this.syncCursor();
+  }
+
+  private *syncCursor(): Generator<T> {
+    for (let i = 0; ; i++) {
+      if (i >= this.items.length && !this.end) {
+        let result: IteratorResult<T> | undefined;
+        try {
+          result = (this.source as Iterator<T>).next();
+        } catch (error: unknown) {
+          this.fail(error);
+        }
+
+        if (result) {
+          this.push(result);
+        }
+      }
+
+      if (i < this.items.length) {
+        yield this.items[i];
+      } else {
+        return this.finish();
+      }
+    }
+  }
+
+  private async *asyncCursor(): AsyncGenerator<T> {
+    for (let i = 0; ; i++) {
+      while (i >= this.items.length && !this.end) {
+        await this.pull();
+      }
+
+      if (i < this.items.length) {
+        yield this.items[i];
+      } else {
+        return this.finish();
+      }
+    }
+  }
+
+  /**
+   * Pulls the next item from the async source. Concurrent calls share the
+   * same pull.
+   */
+  private pull(): Promise<void> {
+    if (!this.pulling) {
+      this.pulling = new Promise<IteratorResult<T>>((resolve) =>
+        resolve((this.source as AsyncIterator<T>).next())
+      )
+        .then(
+          (result) => this.push(result),
+          (error) => this.fail(error)
+        )
+        .finally(() => {
+          this.pulling = undefined;
+        });
+    }
+
+    return this.pulling;
+  }
+
+  private push(result: IteratorResult<T>): void {
+    if (result.done) {
+      this.end = { value: result.value };
+    } else {
+      this.items.push(result.value);
+    }
+  }
+
+  private fail(error: unknown): void {
+    this.end = { error };
+    this.onError?.(error);
+  }
+
+  private finish(): unknown {
+    if ("error" in this.end!) {
+      throw this.end.error;
+    }
+
+    return this.end!.value;
+  }
+}
+
+/**
+ * Returns a Replay for `value` if it's a single-use iterator or async iterator
+ * (or, when `anyIterable` is true, any iterable or async iterable), otherwise
+ * undefined.
+ */
+export function replayOf(
+  value: unknown,
+  anyIterable: boolean
+): Replay<unknown> | undefined {
+  if (value === null || typeof value !== "object") {
+    return undefined;
+  }
+
+  const obj = value as any;
+  const async = typeof obj[Symbol.asyncIterator] === "function";
+  if (!async && typeof obj[Symbol.iterator] !== "function") {
+    return undefined;
+  }
+
+  if (typeof obj.next === "function") {
+    return new Replay(obj, async);
+  }
+
+  return anyIterable
+    ? new Replay(
+        async ? obj[Symbol.asyncIterator]() : obj[Symbol.iterator](),
+        async
+      )
+    : undefined;
+}
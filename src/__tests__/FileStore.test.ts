@@ -0,0 +1,59 @@
+import delay from "delay";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Memoize } from "..";
+import { FileStore } from "../node";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), "FileStore-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test("FileStore saves and expires values", async () => {
+  const store = new FileStore(join(dir, "cache"));
+  expect(await store.get("a")).toBeUndefined();
+  await store.set("a", "1");
+  await store.set("b", "2", 50);
+  expect(await store.get("a")).toEqual("1");
+  expect(await new FileStore(join(dir, "cache")).get("b")).toEqual("2");
+  await store.delete("a");
+  await store.delete("a");
+  expect(await store.get("a")).toBeUndefined();
+  await delay(100);
+  expect(await store.get("b")).toBeUndefined();
+});
+
+test("FileStore deletes keys by prefix", async () => {
+  const store = new FileStore(join(dir, "cache"));
+  await store.deletePrefix("Cls.a:");
+  await store.set("Cls.a:1", "1");
+  await store.set("Cls.a:2", "2");
+  await store.set("Cls.ab:1", "3");
+  await store.deletePrefix("Cls.a:");
+  expect(await store.get("Cls.a:1")).toBeUndefined();
+  expect(await store.get("Cls.a:2")).toBeUndefined();
+  expect(await store.get("Cls.ab:1")).toEqual("3");
+});
+
+test("FileStore works behind @Memoize()", async () => {
+  let count = 0;
+
+  class Cls {
+    @Memoize({ store: new FileStore(dir) })
+    async method1(arg: string) {
+      return { arg, count: count++ };
+    }
+  }
+
+  expect(await new Cls().method1("a")).toEqual({ arg: "a", count: 0 });
+  await delay(50); // the value is saved to the store in background
+  expect(await new Cls().method1("a")).toEqual({ arg: "a", count: 0 });
+  expect(await new Cls().method1("b")).toEqual({ arg: "b", count: 1 });
+  await delay(50);
+});
@@ -0,0 +1,82 @@
+import { ManualClock, Memoize, memoizeExpireUnused, setDefaultClock } from "..";
+
+test("fires due timers in order when advanced", () => {
+  const clock = new ManualClock(1000);
+  const fired: string[] = [];
+  clock.setTimeout(() => fired.push(`b@${clock.now()}`), 20);
+  clock.setTimeout(() => {
+    fired.push(`a@${clock.now()}`);
+    clock.setTimeout(() => fired.push(`c@${clock.now()}`), 5);
+  }, 10);
+  const cancelled = clock.setTimeout(() => fired.push("never"), 15);
+  clock.clearTimeout(cancelled);
+
+  clock.advance(9);
+  expect(fired).toEqual([]);
+  clock.advance(20);
+  expect(fired).toEqual(["a@1010", "c@1015", "b@1020"]);
+  expect(clock.now()).toEqual(1029);
+  expect(clock.pendingTimers).toEqual(0);
+});
+
+test("drives ttlMs of @Memoize() with the clock option", () => {
+  const clock = new ManualClock();
+  let count = 0;
+
+  class Cls {
+    @Memoize({ ttlMs: 100, clock })
+    method() {
+      return count++;
+    }
+  }
+
+  const obj = new Cls();
+  expect(obj.method()).toEqual(0);
+  clock.advance(99);
+  expect(obj.method()).toEqual(0);
+  clock.advance(1);
+  expect(obj.method()).toEqual(1);
+});
+
+test("is used by all caches when set as the default clock", () => {
+  const clock = new ManualClock();
+  setDefaultClock(clock);
+  try {
+    let count = 0;
+    const func = memoizeExpireUnused((_s: string) => count++, {
+      unusedMs: 1000,
+    });
+    expect(func("a")).toEqual(0);
+    clock.advance(999);
+    expect(func("a")).toEqual(0);
+    clock.advance(1001); // the 2nd sweep
+    expect(func.size).toEqual(0);
+    expect(func("a")).toEqual(1);
+  } finally {
+    setDefaultClock(undefined);
+  }
+});
+
+test("is pinned by a cache when it deals with time for the first time", () => {
+  const clock = new ManualClock();
+  setDefaultClock(clock);
+  try {
+    let count = 0;
+
+    class Cls {
+      @Memoize({ ttlMs: 100 })
+      method() {
+        return count++;
+      }
+    }
+
+    const obj = new Cls();
+    expect(obj.method()).toEqual(0);
+    setDefaultClock(new ManualClock(1000));
+    expect(obj.method()).toEqual(0);
+    clock.advance(100);
+    expect(obj.method()).toEqual(1);
+  } finally {
+    setDefaultClock(undefined);
+  }
+});
@@ -0,0 +1,133 @@
+import { Memoize } from "..";
+
+test("memoizes accessor fields and clears them on assignment", () => {
+  let count = 0;
+
+  class Cls {
+    @Memoize()
+    accessor items = [1, 2, 3];
+
+    @Memoize()
+    get sum() {
+      count++;
+      return this.items.reduce((a, b) => a + b, 0);
+    }
+  }
+
+  const obj = new Cls();
+  expect(obj.items).toBe(obj.items);
+  expect(obj.sum).toEqual(6);
+  expect(obj.sum).toEqual(6);
+  expect(count).toEqual(1);
+
+  obj.items = [10];
+  expect(obj.items).toEqual([10]);
+  Memoize.clear(obj, "sum");
+  expect(obj.sum).toEqual(10);
+});
+
+test("dependsOn clears the memoized value when an accessor is assigned", () => {
+  let count = 0;
+
+  class Cls {
+    accessor items = [1, 2, 3];
+
+    @Memoize()
+    accessor filter = 0;
+
+    @Memoize({ dependsOn: ["items", "filter"] })
+    get filtered() {
+      count++;
+      return this.items.filter((item) => item > this.filter);
+    }
+  }
+
+  const obj = new Cls();
+  expect(obj.filtered).toEqual([1, 2, 3]);
+  expect(obj.filtered).toEqual([1, 2, 3]);
+  expect(count).toEqual(1);
+
+  obj.filter = 1;
+  expect(obj.filter).toEqual(1);
+  expect(obj.filtered).toEqual([2, 3]);
+  obj.items = [5];
+  expect(obj.filtered).toEqual([5]);
+  expect(count).toEqual(3);
+});
+
+test("reactive getters track accessor fields", () => {
+  let count = 0;
+
+  class Cls {
+    @Memoize()
+    accessor first = "John";
+
+    @Memoize()
+    accessor last = "Doe";
+
+    @Memoize({ reactive: true })
+    get full() {
+      count++;
+      return `${this.first} ${this.last}`;
+    }
+  }
+
+  const obj = new Cls();
+  expect(obj.full).toEqual("John Doe");
+  expect(obj.full).toEqual("John Doe");
+  obj.last = "Smith";
+  expect(obj.full).toEqual("John Smith");
+  expect(count).toEqual(2);
+});
+
+test("learns the class name from initializers", () => {
+  class Standard {
+    @Memoize()
+    method0() {
+      return 42;
+    }
+
+    @Memoize()
+    static static0() {
+      return 42;
+    }
+  }
+
+  Memoize.enableStats();
+  try {
+    new Standard().method0();
+    Standard.static0();
+  } finally {
+    Memoize.enableStats(false);
+  }
+
+  expect(Memoize.stats()["Standard.method0"]).toMatchObject({ misses: 1 });
+  expect(Memoize.stats()["Standard.static0"]).toMatchObject({ misses: 1 });
+});
+
+test("labels the methods by the declaring class when a subclass comes first", () => {
+  class Base {
+    @Memoize()
+    get value() {
+      return 42;
+    }
+
+    @Memoize()
+    load(id: string) {
+      return id;
+    }
+  }
+
+  class Sub extends Base {}
+
+  new Sub().load("1");
+  const base = new Base();
+  base.value;
+  expect(Memoize.inspect(base).map(({ label }) => label)).toEqual([
+    "Base.value",
+    "Base.load",
+  ]);
+  expect(Memoize.inspect(base)[0].storages[0].propName).toMatch(
+    /^__memoized_val_Base\.value_\d+$/
+  );
+});
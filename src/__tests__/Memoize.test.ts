@@ -1,5 +1,12 @@
 import delay from "delay";
-import { Memoize } from "..";
+import {
+  ManualClock,
+  Memoize,
+  MemoryStore,
+  memoize,
+  memoizeExpireUnused,
+} from "..";
+import type { MemoizeStore } from "..";
 
 test("memoizes Promise", async () => {
   class Cls {
@@ -230,3 +237,1387 @@ test("does not memoize resolved Promise if specified in options", async () => {
     expect(await p1).not.toEqual(await p2);
   }
 });
+
+test("clears memoized values on demand", async () => {
+  class Base {
+    protected count = 0;
+
+    @Memoize()
+    get getter0() {
+      return this.count++;
+    }
+  }
+
+  class Cls extends Base {
+    @Memoize()
+    method0() {
+      return this.count++;
+    }
+
+    @Memoize()
+    method1(_arg: string) {
+      return this.count++;
+    }
+
+    @Memoize()
+    method1obj(_arg: object) {
+      return this.count++;
+    }
+
+    @Memoize((a1, a2) => a1 + a2)
+    method2(_arg1: string, _arg2: number) {
+      return this.count++;
+    }
+
+    notMemoized() {
+      return this.count++;
+    }
+  }
+
+  const obj = new Cls();
+  const arg = {};
+
+  const v0 = obj.method0();
+  Memoize.clear(obj, "method0");
+  expect(obj.method0()).not.toEqual(v0);
+
+  const va = obj.method1("a");
+  const vb = obj.method1("b");
+  Memoize.clear(obj, "method1", "a");
+  expect(obj.method1("a")).not.toEqual(va);
+  expect(obj.method1("b")).toEqual(vb);
+  Memoize.clear(obj, "method1");
+  expect(obj.method1("b")).not.toEqual(vb);
+
+  const vobj = obj.method1obj(arg);
+  Memoize.clear(obj, "method1obj", arg);
+  expect(obj.method1obj(arg)).not.toEqual(vobj);
+
+  const v2 = obj.method2("a", 1);
+  Memoize.clear(obj, "method2", "b", 1);
+  expect(obj.method2("a", 1)).toEqual(v2);
+  Memoize.clear(obj, "method2", "a", 1);
+  expect(obj.method2("a", 1)).not.toEqual(v2);
+
+  const g0 = obj.getter0;
+  const m0 = obj.method0();
+  const m1 = obj.method1("a");
+  const m1obj = obj.method1obj(arg);
+  Memoize.clearAll(obj);
+  expect(obj.getter0).not.toEqual(g0);
+  expect(obj.method0()).not.toEqual(m0);
+  expect(obj.method1("a")).not.toEqual(m1);
+  expect(obj.method1obj(arg)).not.toEqual(m1obj);
+
+  expect(() => Memoize.clear(obj, "notMemoized")).toThrow(
+    "notMemoized is not a @Memoize()-decorated method or getter."
+  );
+});
+
+test("expires memoized values after ttlMs", async () => {
+  class Cls {
+    private count = 0;
+
+    @Memoize({ ttlMs: 50 })
+    method0() {
+      return this.count++;
+    }
+
+    @Memoize({ ttlMs: 50 })
+    method1(_arg: string) {
+      return this.count++;
+    }
+
+    @Memoize({ ttlMs: 50 })
+    method1obj(_arg: object) {
+      return this.count++;
+    }
+
+    @Memoize({ ttlMs: 50, ttlSliding: true })
+    method0sliding() {
+      return this.count++;
+    }
+
+    @Memoize({ ttlMs: 50 })
+    async method0async() {
+      await delay(100);
+      return this.count++;
+    }
+  }
+
+  const obj = new Cls();
+  const arg = {};
+
+  const v0 = obj.method0();
+  const v1 = obj.method1("a");
+  const v1obj = obj.method1obj(arg);
+  expect(obj.method0()).toEqual(v0);
+  expect(obj.method1("a")).toEqual(v1);
+  expect(obj.method1obj(arg)).toEqual(v1obj);
+  await delay(100);
+  expect(obj.method0()).not.toEqual(v0);
+  expect(obj.method1("a")).not.toEqual(v1);
+  expect(obj.method1obj(arg)).not.toEqual(v1obj);
+
+  const vs = obj.method0sliding();
+  for (let i = 0; i < 4; i++) {
+    await delay(20);
+    expect(obj.method0sliding()).toEqual(vs);
+  }
+  await delay(100);
+  expect(obj.method0sliding()).not.toEqual(vs);
+
+  // The TTL starts when the Promise settles, not when it's created.
+  const va = await obj.method0async();
+  expect(await obj.method0async()).toEqual(va);
+  await delay(100);
+  expect(await obj.method0async()).not.toEqual(va);
+});
+
+test("does not memoize rejected Promise with other options", async () => {
+  class Cls {
+    private count = 0;
+
+    @Memoize({ clearOnResolve: true })
+    async method() {
+      throw Error(`error ${this.count++}`);
+    }
+  }
+
+  const obj = new Cls();
+  await expect(obj.method()).rejects.toThrow("error 0");
+  await expect(obj.method()).rejects.toThrow("error 1");
+});
+
+test("evicts least recently used values when maxSize is set", async () => {
+  class Cls {
+    private count = 0;
+
+    @Memoize({ maxSize: 2 })
+    method1(_arg: string) {
+      return this.count++;
+    }
+
+    @Memoize({ maxSize: 1 })
+    async method1async(_arg: string) {
+      await delay(10);
+      return this.count++;
+    }
+  }
+
+  const obj = new Cls();
+
+  const va = obj.method1("a");
+  const vb = obj.method1("b");
+  expect(obj.method1("a")).toEqual(va); // "a" becomes the most recent
+  obj.method1("c"); // evicts "b"
+  expect(obj.method1("a")).toEqual(va);
+  expect(obj.method1("b")).not.toEqual(vb);
+
+  // Pending Promises are not evicted, so parallel calls still coalesce.
+  const p1 = obj.method1async("a");
+  const p2 = obj.method1async("b");
+  expect(obj.method1async("a")).toBe(p1);
+  expect(obj.method1async("b")).toBe(p2);
+  expect(await p1).not.toEqual(await p2);
+  obj.method1async("c");
+  expect(obj.method1async("a")).not.toBe(p1);
+});
+
+test("returns stale value while revalidating", async () => {
+  class Cls {
+    private count = 0;
+    fail = false;
+
+    @Memoize({ ttlMs: 50, staleWhileRevalidate: true })
+    async method1(_arg: string) {
+      await delay(20);
+      if (this.fail) {
+        throw Error(`error ${this.count++}`);
+      }
+
+      return this.count++;
+    }
+
+    @Memoize({ ttlMs: 50, staleWhileRevalidate: true, clearOnReject: false })
+    async method0cached() {
+      await delay(20);
+      if (this.fail) {
+        throw Error(`error ${this.count++}`);
+      }
+
+      return this.count++;
+    }
+  }
+
+  const obj = new Cls();
+
+  expect(await obj.method1("a")).toEqual(0);
+  await delay(60);
+  // Stale: the old value is returned, and only one refresh is started.
+  expect(await obj.method1("a")).toEqual(0);
+  expect(await obj.method1("a")).toEqual(0);
+  await delay(40);
+  expect(await obj.method1("a")).toEqual(1);
+
+  // A failed refresh keeps the previous good value.
+  obj.fail = true;
+  await delay(60);
+  expect(await obj.method1("a")).toEqual(1);
+  await delay(40);
+  expect(await obj.method1("a")).toEqual(1);
+
+  // Unless clearOnReject is false, when the rejection replaces it.
+  await delay(40);
+  obj.fail = false;
+  const v = await obj.method0cached();
+  obj.fail = true;
+  await delay(60);
+  expect(await obj.method0cached()).toEqual(v);
+  await delay(40);
+  await expect(obj.method0cached()).rejects.toThrow(`error ${v + 1}`);
+});
+
+test("calls hooks and collects stats", async () => {
+  const events: string[] = [];
+
+  class Cls {
+    private count = 0;
+
+    @Memoize({
+      maxSize: 1,
+      onHit: (key) => events.push(`hit ${key}`),
+      onMiss: (key) => events.push(`miss ${key}`),
+      onEvict: (key) => events.push(`evict ${key}`),
+      onReject: (key) => events.push(`reject ${key}`),
+    })
+    async method1(arg: string) {
+      await delay(10);
+      if (arg === "bad") {
+        throw Error("bad");
+      }
+
+      return this.count++;
+    }
+
+    @Memoize()
+    method0() {
+      return this.count++;
+    }
+  }
+
+  const obj = new Cls();
+  Memoize.enableStats();
+  try {
+    await Promise.all([obj.method1("a"), obj.method1("a")]);
+    await obj.method1("a");
+    await obj.method1("b");
+    await expect(obj.method1("bad")).rejects.toThrow("bad");
+    obj.method0();
+    obj.method0();
+  } finally {
+    Memoize.enableStats(false);
+  }
+
+  expect(events).toEqual([
+    "miss a",
+    "hit a",
+    "hit a",
+    "miss b",
+    "evict a",
+    "miss bad",
+    "evict b",
+    "reject bad",
+  ]);
+  expect(Memoize.stats(obj, "method1")).toEqual({
+    hits: 1,
+    misses: 3,
+    coalesced: 1,
+    evictions: 2,
+    rejections: 1,
+    entries: { val: 0, map: 0 },
+  });
+  expect(Memoize.stats(obj, "method0")).toMatchObject({
+    hits: 1,
+    misses: 1,
+    entries: { val: 1, map: 0 },
+  });
+  expect(Memoize.stats()["Cls.method1"]).toMatchObject({ misses: 3 });
+});
+
+test("shares memoized values according to scope", () => {
+  let count = 0;
+
+  class Base {
+    @Memoize()
+    static staticInstance() {
+      return count++;
+    }
+
+    @Memoize({ scope: "global" })
+    static staticGlobal() {
+      return count++;
+    }
+
+    @Memoize({ scope: "class" })
+    methodClass(_arg: string) {
+      return count++;
+    }
+
+    @Memoize({ scope: "global" })
+    methodGlobal() {
+      return count++;
+    }
+  }
+
+  class Sub extends Base {}
+
+  expect(Base.staticInstance()).not.toEqual(Sub.staticInstance());
+  expect(Base.staticGlobal()).toEqual(Sub.staticGlobal());
+
+  const [b1, b2, s1] = [new Base(), new Base(), new Sub()];
+  expect(b1.methodClass("a")).toEqual(b2.methodClass("a"));
+  expect(b1.methodClass("a")).not.toEqual(s1.methodClass("a"));
+  expect(b1.methodGlobal()).toEqual(s1.methodGlobal());
+
+  const v = b2.methodClass("a");
+  Memoize.clear(b1, "methodClass");
+  expect(b2.methodClass("a")).not.toEqual(v);
+});
+
+test("memoizes standalone functions", async () => {
+  let count = 0;
+  const arg = {};
+  const func0 = memoize(() => count++);
+  const func1 = memoize((_arg: object) => count++);
+  const func2 = memoize((a: string, b: number) => `${a}${b}:${count++}`, {
+    hasher: (a, b) => `${a}#${b}`,
+  });
+  const funcAsync = memoize(
+    async (arg: string) => {
+      await delay(10);
+      return `${arg}:${count++}`;
+    },
+    { clearOnResolve: true }
+  );
+
+  expect(func0()).toEqual(func0());
+  expect(func1(arg)).toEqual(func1(arg));
+  expect(func1({})).not.toEqual(func1({}));
+  expect(func2("a", 1)).toEqual(func2("a", 1));
+  expect(func2("a", 1)).not.toEqual(func2("a1", 1));
+
+  const [p1, p2] = [funcAsync("a"), funcAsync("a")];
+  expect(await p1).toEqual(await p2);
+  expect(await funcAsync("a")).not.toEqual(await p1);
+
+  // @ts-expect-error hasher is mandatory for functions with 2+ args
+  memoize((_a: string, _b: number) => count++);
+});
+
+test("clears the values of standalone functions", () => {
+  let count = 0;
+  const func0 = memoize(() => count++);
+  const func2 = memoize((a: string, b: number) => `${a}${b}:${count++}`, {
+    hasher: (a, b) => `${a}#${b}`,
+  });
+
+  expect(func0()).toEqual(0);
+  expect(func0.delete()).toBe(true);
+  expect(func0.delete()).toBe(false);
+  expect(func0()).toEqual(1);
+
+  expect(func2("a", 1)).toEqual("a1:2");
+  expect(func2("b", 1)).toEqual("b1:3");
+  expect(func2.delete("a", 1)).toBe(true);
+  expect(func2("a", 1)).toEqual("a1:4");
+  expect(func2("b", 1)).toEqual("b1:3");
+  func2.clear();
+  expect(func2("b", 1)).toEqual("b1:5");
+});
+
+test("doesn't count anonymous standalone functions in global stats", () => {
+  Memoize.enableStats();
+  try {
+    memoize(() => 1)();
+    memoize(function named() {
+      return 2;
+    })();
+  } finally {
+    Memoize.enableStats(false);
+  }
+
+  expect(Memoize.stats()["anonymous"]).toBeUndefined();
+  expect(Memoize.stats()["named"]).toMatchObject({ misses: 1 });
+});
+
+test("keys by all arguments when allArgs is set", () => {
+  class Cls {
+    private count = 0;
+
+    @Memoize({ allArgs: true })
+    method2(_arg1: string, _arg2: string) {
+      return this.count++;
+    }
+
+    @Memoize({ allArgs: true })
+    method3obj(_arg1: object, _arg2: number, _arg3?: object) {
+      return this.count++;
+    }
+  }
+
+  const obj = new Cls();
+  const [a, b] = [{}, {}];
+
+  expect(obj.method2("a#b", "c")).toEqual(obj.method2("a#b", "c"));
+  expect(obj.method2("a#b", "c")).not.toEqual(obj.method2("a", "b#c"));
+
+  expect(obj.method3obj(a, 1, b)).toEqual(obj.method3obj(a, 1, b));
+  expect(obj.method3obj(a, 1, b)).not.toEqual(obj.method3obj(b, 1, a));
+  expect(obj.method3obj(a, 1)).toEqual(obj.method3obj(a, 1, undefined));
+
+  const v = obj.method3obj(a, 1, b);
+  Memoize.clear(obj, "method3obj", a, 1, b);
+  expect(obj.method3obj(a, 1, b)).not.toEqual(v);
+
+  const func = memoize((x: number, y: number) => x + y + Math.random(), {
+    allArgs: true,
+  });
+  expect(func(1, 2)).toEqual(func(1, 2));
+  expect(func(1, 2)).not.toEqual(func(2, 1));
+});
+
+test("aborts the coalesced call only when all callers abort", async () => {
+  const aborted: string[] = [];
+
+  class Cls {
+    private count = 0;
+
+    @Memoize({ abortable: true })
+    async method1(arg: string, signal?: AbortSignal) {
+      await new Promise((resolve, reject) => {
+        const timer = setTimeout(resolve, 50);
+        signal!.addEventListener("abort", () => {
+          aborted.push(arg);
+          clearTimeout(timer);
+          reject(signal!.reason);
+        });
+      });
+      return this.count++;
+    }
+  }
+
+  const obj = new Cls();
+
+  // One of two callers aborts: only its own wait is aborted.
+  const c1 = new AbortController();
+  const c2 = new AbortController();
+  const p1 = obj.method1("a", c1.signal);
+  const p2 = obj.method1("a", c2.signal);
+  c1.abort(Error("c1"));
+  await expect(p1).rejects.toThrow("c1");
+  expect(await p2).toEqual(0);
+  expect(aborted).toEqual([]);
+
+  // All callers abort: the method's signal fires.
+  const c3 = new AbortController();
+  const c4 = new AbortController();
+  const p3 = obj.method1("b", c3.signal);
+  const p4 = obj.method1("b", c4.signal);
+  c3.abort(Error("c3"));
+  c4.abort(Error("c4"));
+  await expect(p3).rejects.toThrow("c3");
+  await expect(p4).rejects.toThrow("c4");
+  expect(aborted).toEqual(["b"]);
+  expect(await obj.method1("b")).toEqual(1);
+
+  // A caller without a signal keeps the method running.
+  const c5 = new AbortController();
+  const p5 = obj.method1("c", c5.signal);
+  const p6 = obj.method1("c");
+  c5.abort(Error("c5"));
+  await expect(p5).rejects.toThrow("c5");
+  expect(await p6).toEqual(2);
+  expect(aborted).toEqual(["b"]);
+});
+
+test("passes the abort signal at its parameter position", async () => {
+  const calls: unknown[][] = [];
+
+  class Cls {
+    @Memoize({ abortable: true, allArgs: true })
+    async method1(arg1: string, arg2?: string, signal?: AbortSignal) {
+      calls.push([arg1, arg2, signal]);
+      return arg1 + (arg2 ?? "");
+    }
+  }
+
+  const obj = new Cls();
+  expect(await obj.method1("a")).toEqual("a");
+  expect(await obj.method1("a", undefined)).toEqual("a");
+  expect(await obj.method1("a", undefined, undefined)).toEqual("a");
+  expect(calls).toEqual([["a", undefined, expect.any(AbortSignal)]]);
+
+  expect(await obj.method1("a", "b")).toEqual("ab");
+  expect(calls.length).toEqual(2);
+  expect(calls[1][2]).toBeInstanceOf(AbortSignal);
+});
+
+test("ignores trailing undefined arguments with allArgs", () => {
+  const func = memoize((x: number, y?: number) => [x, y], { allArgs: true });
+  expect(func(1, undefined)).toBe(func(1));
+  expect(func(1, 2)).not.toBe(func(1));
+});
+
+test("consults the external store on a miss", async () => {
+  const store = new MemoryStore();
+  let count = 0;
+
+  class Cls {
+    @Memoize({ store })
+    async method0() {
+      await delay(10);
+      return { count: count++ };
+    }
+
+    @Memoize({ store, ttlMs: 50 })
+    async method1(arg: string) {
+      await delay(10);
+      return `${arg}:${count++}`;
+    }
+  }
+
+  const [obj1, obj2] = [new Cls(), new Cls()];
+
+  // Parallel calls are still coalesced locally.
+  const [v1, v2] = await Promise.all([obj1.method0(), obj1.method0()]);
+  expect(v1).toBe(v2);
+  expect(count).toEqual(1);
+
+  // Another object gets the value from the store.
+  expect(await obj2.method0()).toEqual(v1);
+  expect(count).toEqual(1);
+
+  expect(await obj1.method1("a")).toEqual("a:1");
+  expect(await obj2.method1("a")).toEqual("a:1");
+  expect(await obj2.method1("b")).toEqual("b:2");
+
+  // Clearing with arguments removes the value from the store too.
+  Memoize.clear(obj1, "method1", "a");
+  Memoize.clear(obj2, "method1", "a");
+  expect(await obj2.method1("a")).toEqual("a:3");
+
+  // The store respects ttlMs.
+  await delay(100);
+  expect(await obj1.method1("b")).toEqual("b:4");
+
+  // Clearing all the values of a method removes them from the store too.
+  Memoize.clear(obj1, "method0");
+  Memoize.clearAll(obj1);
+  expect(await new Cls().method0()).toEqual({ count: 5 });
+  expect(await new Cls().method1("b")).toEqual("b:6");
+});
+
+test("forced calls don't read the external store", async () => {
+  const store = new MemoryStore();
+  let count = 0;
+
+  class Cls {
+    @Memoize({ store })
+    async load(id: string) {
+      return `${id}:${count++}`;
+    }
+  }
+
+  const obj = new Cls();
+  expect(await obj.load("1")).toEqual("1:0");
+  await delay(10); // the value is saved to the store in background
+  expect(await Memoize.refresh(obj, "load", "1")).toEqual("1:1");
+  await delay(10);
+  expect(await new Cls().load("1")).toEqual("1:1");
+});
+
+test("requires unique store key prefixes", async () => {
+  const store = new MemoryStore();
+
+  expect(() =>
+    memoize(async (id: number) => ({ kind: "user", id }), { store })
+  ).toThrow("storeKey");
+  const getUser = memoize(async (id: number) => ({ kind: "user", id }), {
+    store,
+    storeKey: "user",
+  });
+  const getOrder = memoize(async (id: number) => ({ kind: "order", id }), {
+    store,
+    storeKey: "order",
+  });
+  expect(await getUser(1)).toEqual({ kind: "user", id: 1 });
+  expect(await getOrder(1)).toEqual({ kind: "order", id: 1 });
+  expect(() =>
+    memoize(async (id: number) => id, { store, storeKey: "user" })
+  ).toThrow('Store key prefix "user" is already used');
+
+  const defineCls = () => {
+    class Cls {
+      @Memoize({ store })
+      async method1(arg: string) {
+        return arg;
+      }
+    }
+
+    return new Cls();
+  };
+  defineCls();
+  expect(defineCls).toThrow('Store key prefix "Cls.method1" is already used');
+});
+
+test("clears the store keys of local values without deletePrefix", async () => {
+  const memoryStore = new MemoryStore();
+  const store: MemoizeStore = {
+    get: (key) => memoryStore.get(key),
+    set: (key, data, ttlMs) => memoryStore.set(key, data, ttlMs),
+    delete: (key) => memoryStore.delete(key),
+  };
+  let count = 0;
+
+  class Cls {
+    @Memoize({ store })
+    async method1(arg: string) {
+      return `${arg}:${count++}`;
+    }
+  }
+
+  const obj = new Cls();
+  expect(await obj.method1("a")).toEqual("a:0");
+  await delay(10); // the value is saved to the store in background
+  expect(await new Cls().method1("a")).toEqual("a:0");
+  Memoize.clear(obj, "method1");
+  expect(await new Cls().method1("a")).toEqual("a:1");
+});
+
+test("uses the external store only for Promises", async () => {
+  const store = new MemoryStore();
+  let count = 0;
+
+  class Cls {
+    @Memoize({ store })
+    get getter() {
+      return count++;
+    }
+
+    @Memoize({ store })
+    method1(arg: string) {
+      return delay(10).then(() => `${arg}:${count++}`);
+    }
+  }
+
+  const [obj1, obj2] = [new Cls(), new Cls()];
+  expect(obj1.getter).toEqual(0);
+  expect(obj2.getter).toEqual(1);
+  expect(await store.get("Cls.getter")).toBeUndefined();
+
+  expect(await obj1.method1("a")).toEqual("a:2");
+  expect(await obj2.method1("a")).toEqual("a:2");
+  expect(await obj2.method1("b")).toEqual("b:3");
+});
+
+test("dependsOn clears the memoized value when a dependency is assigned", () => {
+  let count = 0;
+
+  class Base {
+    private _items = [1, 2, 3];
+
+    get items() {
+      return this._items;
+    }
+
+    set items(items: number[]) {
+      this._items = items;
+    }
+  }
+
+  const baseSet = Object.getOwnPropertyDescriptor(Base.prototype, "items")!.set;
+
+  class Cls extends Base {
+    private _filter = 0;
+
+    get filter() {
+      return this._filter;
+    }
+
+    set filter(filter: number) {
+      this._filter = filter;
+    }
+
+    @Memoize({ dependsOn: ["items", "filter"] })
+    get filtered() {
+      count++;
+      return this.items.filter((item) => item > this.filter);
+    }
+
+    @Memoize({ dependsOn: ["items"] })
+    get total() {
+      return this.items.reduce((a, b) => a + b, 0);
+    }
+  }
+
+  const [obj1, obj2] = [new Cls(), new Cls()];
+  expect(obj1.filtered).toEqual([1, 2, 3]);
+  expect(obj1.filtered).toEqual([1, 2, 3]);
+  expect(obj2.filtered).toEqual([1, 2, 3]);
+  expect(obj1.total).toEqual(6);
+  expect(count).toEqual(2);
+
+  obj1.filter = 1;
+  expect(obj1.filtered).toEqual([2, 3]);
+  expect(obj1.total).toEqual(6);
+  expect(count).toEqual(3);
+
+  obj1.items = [5, 6];
+  expect(obj1.items).toEqual([5, 6]);
+  expect(obj1.filtered).toEqual([5, 6]);
+  expect(obj1.total).toEqual(11);
+  expect(count).toEqual(4);
+
+  // Other objects and the parent class are not affected.
+  expect(obj2.filtered).toEqual([1, 2, 3]);
+  expect(count).toEqual(4);
+  expect(Object.getOwnPropertyDescriptor(Base.prototype, "items")!.set).toBe(
+    baseSet
+  );
+
+  expect(() => {
+    class Bad {
+      plain = 42;
+
+      @Memoize({ dependsOn: ["plain"] })
+      get value() {
+        return this.plain;
+      }
+    }
+
+    return new Bad();
+  }).toThrow(/plain of value must be a setter or an accessor/);
+});
+
+test("reactive getters are invalidated transitively", () => {
+  const computed: string[] = [];
+
+  class Price {
+    private _amount = 10;
+
+    get amount() {
+      return this._amount;
+    }
+
+    set amount(amount: number) {
+      this._amount = amount;
+    }
+
+    @Memoize({ dependsOn: ["amount"] })
+    get value() {
+      return this.amount;
+    }
+  }
+
+  class Order {
+    constructor(readonly price: Price, private quantity: number) {}
+
+    @Memoize({ reactive: true })
+    get subtotal() {
+      computed.push("subtotal");
+      return this.price.value * this.quantity;
+    }
+
+    @Memoize({ reactive: true })
+    get total() {
+      computed.push("total");
+      return this.subtotal + 1;
+    }
+
+    @Memoize({ reactive: true })
+    get label() {
+      computed.push("label");
+      return `Order of ${this.quantity}`;
+    }
+  }
+
+  const order = new Order(new Price(), 2);
+  expect([order.total, order.label]).toEqual([21, "Order of 2"]);
+  expect([order.total, order.label]).toEqual([21, "Order of 2"]);
+  expect(computed).toEqual(["total", "subtotal", "label"]);
+
+  computed.length = 0;
+  order.price.amount = 20;
+  expect([order.total, order.label]).toEqual([41, "Order of 2"]);
+  expect(computed).toEqual(["total", "subtotal"]);
+
+  computed.length = 0;
+  Memoize.clear(order, "subtotal");
+  expect(order.total).toEqual(41);
+  expect(computed).toEqual(["total", "subtotal"]);
+});
+
+test("reactive getters report cycles", () => {
+  class Cls {
+    @Memoize({ reactive: true })
+    get a(): number {
+      return this.b + 1;
+    }
+
+    @Memoize({ reactive: true })
+    get b(): number {
+      return this.c + 1;
+    }
+
+    @Memoize({ reactive: true })
+    get c(): number {
+      return this.a + 1;
+    }
+  }
+
+  expect(() => new Cls().a).toThrow(
+    "Cycle in @Memoize() dependencies: Cls.a -> Cls.b -> Cls.c -> Cls.a"
+  );
+});
+
+test("reports cycles of methods keyed by all arguments", () => {
+  class Cls {
+    @Memoize({ reactive: true })
+    get sum(): number {
+      return this.a(1, 2);
+    }
+
+    @Memoize({ allArgs: true })
+    a(x: number, y: number): number {
+      return this.b(x, y) + 1;
+    }
+
+    @Memoize({ allArgs: true })
+    b(x: number, y: number): number {
+      return y > 0 ? this.b(x, y - 1) : this.a(x, 2);
+    }
+  }
+
+  expect(() => new Cls().sum).toThrow(
+    "Cycle in @Memoize() dependencies: Cls.a -> Cls.b -> Cls.b -> Cls.b -> Cls.a"
+  );
+});
+
+test("exports and imports memoized values with snapshot and restore", async () => {
+  let count = 0;
+
+  class Cls {
+    @Memoize()
+    get getter() {
+      return { count: count++ };
+    }
+
+    @Memoize({ ttlMs: 1000 })
+    async method1(arg: string | object) {
+      await delay(10);
+      return `${JSON.stringify(arg)}:${count++}`;
+    }
+
+    @Memoize({ ttlMs: 20 })
+    method2(arg: number) {
+      return arg + count++;
+    }
+  }
+
+  const obj = new Cls();
+  obj.getter;
+  await obj.method1("a");
+  await obj.method1({}); // memoized in a WeakMap: skipped
+  obj.method2(10);
+  const pending = obj.method1("pending"); // skipped
+  const snapshot = JSON.parse(JSON.stringify(Memoize.snapshot(obj)));
+  expect(snapshot).toEqual({
+    "Cls.getter": [{ value: { count: 0 } }],
+    "Cls.method1": [
+      { key: "a", value: '"a":1', async: true, expiresAt: expect.any(Number) },
+    ],
+    "Cls.method2": [{ key: 10, value: 13, expiresAt: expect.any(Number) }],
+  });
+  await pending;
+
+  await delay(50);
+  const restored = new Cls();
+  Memoize.restore(restored, snapshot);
+  expect(restored.getter).toEqual({ count: 0 });
+  expect(await restored.method1("a")).toEqual('"a":1');
+  expect(restored.method2(10)).toEqual(15); // expired, so not restored
+  expect(count).toEqual(6);
+});
+
+test("snapshot skips memoized errors", async () => {
+  class Cls {
+    @Memoize({ onError: { cacheMs: 1000 } })
+    method1(arg: string) {
+      if (arg === "bad") {
+        throw Error("bad");
+      }
+
+      return arg;
+    }
+
+    @Memoize({ onError: { cacheMs: 1000 } })
+    async method2(arg: string) {
+      throw Error(arg);
+    }
+  }
+
+  const obj = new Cls();
+  obj.method1("good");
+  expect(() => obj.method1("bad")).toThrow("bad");
+  await expect(obj.method2("bad")).rejects.toThrow("bad");
+  expect(JSON.parse(JSON.stringify(Memoize.snapshot(obj)))).toEqual({
+    "Cls.method1": [{ key: "good", value: "good" }],
+  });
+});
+
+test("onError policy caches errors for some time", async () => {
+  let count = 0;
+
+  class TransientError extends Error {}
+
+  class Cls {
+    @Memoize({
+      onError: {
+        cacheMs: 200,
+        backoff: 2,
+        isCacheable: (e) => !(e instanceof TransientError),
+      },
+    })
+    async method1(arg: string) {
+      count++;
+      await delay(5);
+      if (arg === "transient") {
+        throw new TransientError(`transient ${count}`);
+      }
+
+      throw Error(`error ${count}`);
+    }
+
+    @Memoize({ onError: { cacheMs: 200 } })
+    get getter(): number {
+      throw Error(`getter ${++count}`);
+    }
+  }
+
+  const obj = new Cls();
+  await expect(obj.method1("a")).rejects.toThrow("error 1");
+  await expect(obj.method1("a")).rejects.toThrow("error 1");
+  await delay(300);
+  await expect(obj.method1("a")).rejects.toThrow("error 2"); // cached for 400 ms
+  await delay(200);
+  await expect(obj.method1("a")).rejects.toThrow("error 2");
+  await delay(300);
+  await expect(obj.method1("a")).rejects.toThrow("error 3");
+
+  await expect(obj.method1("transient")).rejects.toThrow("transient 4");
+  await expect(obj.method1("transient")).rejects.toThrow("transient 5");
+
+  expect(() => obj.getter).toThrow("getter 6");
+  expect(() => obj.getter).toThrow("getter 6");
+  await delay(300);
+  expect(() => obj.getter).toThrow("getter 7");
+});
+
+test("invalidateTag removes tagged values across methods and objects", () => {
+  let count = 0;
+
+  class Cls {
+    constructor(public tenant: string) {}
+
+    @Memoize({ tags: ["config"] })
+    get getter(): number {
+      return count++;
+    }
+
+    @Memoize({
+      tags(this: Cls, user: string) {
+        return [`tenant:${this.tenant}`, `user:${user}`];
+      },
+    })
+    method1(user: string): number {
+      return count++;
+    }
+
+    @Memoize({ tags: ["config"] })
+    method2(obj: object): number {
+      return count++;
+    }
+
+    @Memoize({ allArgs: true, tags: ["config"] })
+    method3(a: string, b: object): number {
+      return count++;
+    }
+  }
+
+  const objA = new Cls("a");
+  const objB = new Cls("b");
+  const key = {};
+  const func = memoizeExpireUnused((user: string) => count++, {
+    tags: (user) => [`user:${user}`],
+  });
+
+  const getterA = objA.getter;
+  const getterB = objB.getter;
+  const method2A = objA.method2(key);
+  const method3A = objA.method3("x", key);
+  const method1A = objA.method1("u1");
+  const method1B = objB.method1("u1");
+  const method1B2 = objB.method1("u2");
+  const funcU1 = func("u1");
+
+  Memoize.invalidateTag("user:u1");
+  expect(objA.method1("u1")).not.toEqual(method1A);
+  expect(objB.method1("u1")).not.toEqual(method1B);
+  expect(objB.method1("u2")).toEqual(method1B2);
+  expect(func("u1")).not.toEqual(funcU1);
+  expect(objA.getter).toEqual(getterA);
+
+  Memoize.invalidateTag(objA, "config");
+  expect(objA.getter).not.toEqual(getterA);
+  expect(objA.method2(key)).not.toEqual(method2A);
+  expect(objA.method3("x", key)).not.toEqual(method3A);
+  expect(objB.getter).toEqual(getterB);
+
+  Memoize.invalidateTag("config");
+  expect(objB.getter).not.toEqual(getterB);
+
+  const method1B2Again = objB.method1("u2");
+  Memoize.invalidateTag(objA, "tenant:b");
+  expect(objB.method1("u2")).toEqual(method1B2Again);
+  Memoize.invalidateTag(objB, "tenant:b");
+  expect(objB.method1("u2")).not.toEqual(method1B2Again);
+});
+
+test("fresh and refresh bypass the memoized value, peek doesn't compute", async () => {
+  let count = 0;
+
+  class Cls {
+    @Memoize()
+    get getter(): number {
+      return count++;
+    }
+
+    @Memoize()
+    method(arg: string): string {
+      return `${arg}${count++}`;
+    }
+
+    @Memoize()
+    async asyncMethod(arg: string): Promise<string> {
+      await delay(20);
+      return `${arg}${count++}`;
+    }
+  }
+
+  const obj = new Cls();
+  expect(Memoize.peek(obj, "getter")).toBeUndefined();
+  expect(Memoize.peek(obj, "method", "a")).toBeUndefined();
+  expect(count).toEqual(0);
+
+  expect(obj.getter).toEqual(0);
+  expect(obj.method("a")).toEqual("a1");
+  expect(Memoize.peek(obj, "getter")).toEqual(0);
+  expect(Memoize.peek(obj, "method", "a")).toEqual("a1");
+  expect(Memoize.peek(obj, "method", "b")).toBeUndefined();
+
+  expect(Memoize.fresh(() => obj.method("a"))).toEqual("a2");
+  expect(obj.method("a")).toEqual("a2");
+  expect(Memoize.refresh(obj, "getter")).toEqual(3);
+  expect(obj.getter).toEqual(3);
+  expect(Memoize.refresh(obj, "method", "a")).toEqual("a4");
+  expect(obj.method("a")).toEqual("a4");
+
+  // Forced calls coalesce with each other, but not with the normal ones.
+  const normal = obj.asyncMethod("x");
+  const forced1 = Memoize.refresh(obj, "asyncMethod", "x");
+  const forced2 = Memoize.fresh(() => obj.asyncMethod("x"));
+  expect(forced2).toBe(forced1);
+  expect(obj.asyncMethod("x")).toBe(forced1);
+  expect(normal).not.toBe(forced1);
+  expect(await normal).toEqual("x5");
+  expect(await forced1).toEqual("x6");
+  expect(await obj.asyncMethod("x")).toEqual("x6");
+  expect(await Memoize.refresh(obj, "asyncMethod", "x")).toEqual("x7");
+});
+
+test("refresh invalidates reactive dependents", () => {
+  let price = 20;
+
+  class Cls {
+    @Memoize()
+    get price() {
+      return price;
+    }
+
+    @Memoize({ reactive: true })
+    get total() {
+      return this.price * 2;
+    }
+  }
+
+  const obj = new Cls();
+  expect(obj.total).toEqual(40);
+  price = 40;
+  expect(Memoize.refresh(obj, "price")).toEqual(40);
+  expect(obj.total).toEqual(80);
+});
+
+test("expiry and eviction invalidate reactive dependents", () => {
+  const clock = new ManualClock();
+  let price = 20;
+
+  class Cls {
+    @Memoize({ ttlMs: 100, clock })
+    get price() {
+      return price;
+    }
+
+    @Memoize({ maxSize: 1 })
+    rate(currency: string) {
+      return currency === "EUR" ? price / 2 : price;
+    }
+
+    @Memoize({ reactive: true })
+    get total() {
+      return this.price * 2;
+    }
+
+    @Memoize({ reactive: true })
+    get totalEur() {
+      return this.rate("EUR");
+    }
+  }
+
+  const obj = new Cls();
+  expect(obj.total).toEqual(40);
+  expect(obj.totalEur).toEqual(10);
+  price = 40;
+  expect(obj.total).toEqual(40);
+  clock.advance(100);
+  expect(obj.price).toEqual(40);
+  expect(obj.total).toEqual(80);
+
+  expect(obj.totalEur).toEqual(10);
+  obj.rate("USD"); // evicts "EUR"
+  expect(obj.totalEur).toEqual(20);
+});
+
+test("refresh forces only the target method", () => {
+  let count = 0;
+
+  class Cls {
+    @Memoize()
+    get id(): string {
+      return `id${count++}`;
+    }
+
+    @Memoize(function (this: Cls, arg: string) {
+      return `${this.id}:${arg}`;
+    })
+    method(arg: string): string {
+      return `${arg}${count++}`;
+    }
+  }
+
+  const obj = new Cls();
+  expect(obj.method("a")).toEqual("a1");
+  // The hasher reads the memoized getter before the method is forced.
+  expect(Memoize.refresh(obj, "method", "a")).toEqual("a2");
+  expect(obj.id).toEqual("id0");
+  expect(obj.method("a")).toEqual("a2");
+});
+
+test("inspect reports storages and entries", async () => {
+  function byName(arg: unknown) {
+    return String(arg);
+  }
+
+  class Cls {
+    @Memoize()
+    get getter(): number {
+      return 42;
+    }
+
+    @Memoize({ maxSize: 10 })
+    async method1(arg: string): Promise<string> {
+      await delay(10);
+      return arg;
+    }
+
+    @Memoize(byName)
+    method2(obj: object): string {
+      return "ok";
+    }
+
+    @Memoize()
+    method3(obj: object): string {
+      return "ok";
+    }
+  }
+
+  const obj = new Cls();
+  expect(Memoize.inspect(obj)).toEqual([
+    expect.objectContaining({ propName: "getter", storages: [] }),
+    expect.objectContaining({ propName: "method1", storages: [] }),
+    expect.objectContaining({ propName: "method2", hasher: "byName" }),
+    expect.objectContaining({ propName: "method3", hasher: undefined }),
+  ]);
+
+  obj.getter;
+  await obj.method1("a");
+  const pending = obj.method1("b");
+  obj.method2({});
+  obj.method3({});
+  expect(Memoize.inspect(obj)).toEqual([
+    {
+      label: "Cls.getter",
+      propName: "getter",
+      scope: "instance",
+      hasher: undefined,
+      storages: [
+        {
+          kind: "val",
+          propName: expect.stringMatching(/^__memoized_val_Cls\.getter_\d+$/),
+          entries: 1,
+          pending: 0,
+          settled: 1,
+        },
+      ],
+    },
+    expect.objectContaining({
+      storages: [
+        {
+          kind: "lru",
+          propName: expect.stringMatching(/^__memoized_map_Cls\.method1_\d+$/),
+          entries: 2,
+          pending: 1,
+          settled: 1,
+        },
+      ],
+    }),
+    expect.objectContaining({
+      storages: [
+        {
+          kind: "map",
+          propName: expect.stringMatching(/^__memoized_map_Cls\.method2_\d+$/),
+          entries: 1,
+          pending: 0,
+          settled: 1,
+        },
+      ],
+    }),
+    expect.objectContaining({
+      storages: [
+        {
+          kind: "weakMap",
+          propName: expect.stringMatching(/^__memoized_weak_Cls\.method3_\d+$/),
+        },
+      ],
+    }),
+  ]);
+  await pending;
+});
+
+test("inspect doesn't report untracked Promises as settled", async () => {
+  class Cls {
+    @Memoize({ clearOnReject: false })
+    async method1(arg: string): Promise<string> {
+      return arg;
+    }
+  }
+
+  const obj = new Cls();
+  await obj.method1("a");
+  expect(Memoize.inspect(obj)[0].storages).toEqual([
+    {
+      kind: "map",
+      propName: expect.stringMatching(/^__memoized_map_Cls\.method1_\d+$/),
+      entries: 1,
+      pending: undefined,
+      settled: undefined,
+    },
+  ]);
+});
+
+test("replays memoized generators and async generators", async () => {
+  let pulls = 0;
+
+  class Cls {
+    @Memoize()
+    *numbers(n: number): Generator<number> {
+      for (let i = 0; i < n; i++) {
+        pulls++;
+        yield i;
+      }
+    }
+
+    @Memoize()
+    async *asyncNumbers(n: number): AsyncGenerator<number> {
+      for (let i = 0; i < n; i++) {
+        await delay(5);
+        pulls++;
+        yield i;
+      }
+    }
+
+    @Memoize()
+    *failing(): Generator<number> {
+      pulls++;
+      yield 1;
+      throw Error("failed");
+    }
+
+    @Memoize({ replay: true })
+    iterable(): Iterable<number> {
+      pulls++;
+      return new Set([1, 2]);
+    }
+  }
+
+  const obj = new Cls();
+  const first = obj.numbers(3);
+  expect(first.next()).toEqual({ value: 0, done: false });
+  expect([...obj.numbers(3)]).toEqual([0, 1, 2]);
+  expect([...first]).toEqual([1, 2]);
+  expect([...obj.numbers(3)]).toEqual([0, 1, 2]);
+  expect(pulls).toEqual(3);
+
+  pulls = 0;
+  const collect = async (iterable: AsyncIterable<number>) => {
+    const items: number[] = [];
+    for await (const item of iterable) {
+      items.push(item);
+    }
+
+    return items;
+  };
+  expect(
+    await Promise.all([
+      collect(obj.asyncNumbers(3)),
+      collect(obj.asyncNumbers(3)),
+    ])
+  ).toEqual([
+    [0, 1, 2],
+    [0, 1, 2],
+  ]);
+  expect(await collect(obj.asyncNumbers(3))).toEqual([0, 1, 2]);
+  expect(pulls).toEqual(3);
+
+  pulls = 0;
+  const failing = obj.failing();
+  expect(failing.next()).toEqual({ value: 1, done: false });
+  expect(() => failing.next()).toThrow("failed");
+  expect(() => [...obj.failing()]).toThrow("failed"); // not memoized anymore
+  expect(pulls).toEqual(2);
+
+  pulls = 0;
+  expect([...obj.iterable()]).toEqual([1, 2]);
+  expect([...obj.iterable()]).toEqual([1, 2]);
+  expect(pulls).toEqual(1);
+});
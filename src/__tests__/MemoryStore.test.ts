@@ -0,0 +1,26 @@
+import delay from "delay";
+import { MemoryStore } from "..";
+
+test("MemoryStore saves and expires values", async () => {
+  const store = new MemoryStore();
+  expect(await store.get("a")).toBeUndefined();
+  await store.set("a", "1");
+  await store.set("b", "2", 50);
+  expect(await store.get("a")).toEqual("1");
+  expect(await store.get("b")).toEqual("2");
+  await store.delete("a");
+  expect(await store.get("a")).toBeUndefined();
+  await delay(100);
+  expect(await store.get("b")).toBeUndefined();
+});
+
+test("MemoryStore deletes keys by prefix", async () => {
+  const store = new MemoryStore();
+  await store.set("Cls.a:1", "1");
+  await store.set("Cls.a:2", "2");
+  await store.set("Cls.ab:1", "3");
+  await store.deletePrefix("Cls.a:");
+  expect(await store.get("Cls.a:1")).toBeUndefined();
+  expect(await store.get("Cls.a:2")).toBeUndefined();
+  expect(await store.get("Cls.ab:1")).toEqual("3");
+});
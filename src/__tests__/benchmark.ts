@@ -0,0 +1,55 @@
+import { memoizeExpireUnused } from "../memoizeExpireUnused";
+
+// Compares memoizeExpireUnused() with the previous implementation, which
+// restarted a setTimeout() timer on every read. Run with `npm run benchmark`
+// (after `npm run build`).
+
+function memoizeWithTimers<TArg, TResult>(
+  func: (arg: TArg) => TResult,
+  unusedMs: number
+): (arg: TArg) => TResult {
+  const cache = new Map<TArg, { result: TResult; timeout?: any }>();
+  return (arg) => {
+    let slot = cache.get(arg);
+    if (!slot) {
+      slot = { result: func(arg) };
+      cache.set(arg, slot);
+    }
+
+    if (slot.timeout) {
+      clearTimeout(slot.timeout);
+    }
+
+    slot.timeout = setTimeout(() => cache.delete(arg), unusedMs).unref();
+    return slot.result;
+  };
+}
+
+function bench(name: string, func: (arg: number) => number, keys: number) {
+  const reads = 1000000;
+  for (let i = 0; i < keys; i++) {
+    func(i); // warm up the cache
+  }
+
+  const start = process.hrtime.bigint();
+  let sum = 0;
+  for (let i = 0; i < reads; i++) {
+    sum += func(i % keys);
+  }
+
+  const ns = Number(process.hrtime.bigint() - start) / reads;
+  console.log(`${name}, ${keys} keys: ${ns.toFixed(1)} ns/read (${sum})`);
+}
+
+for (const keys of [1, 1000, 10000]) {
+  bench(
+    "setTimeout per read",
+    memoizeWithTimers((arg: number) => arg * 2, 60000),
+    keys
+  );
+  bench(
+    "memoizeExpireUnused",
+    memoizeExpireUnused((arg: number) => arg * 2, { unusedMs: 60000 }),
+    keys
+  );
+}
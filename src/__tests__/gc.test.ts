@@ -0,0 +1,54 @@
+import delay from "delay";
+import { setFlagsFromString } from "v8";
+import { runInNewContext } from "vm";
+import { Memoize } from "..";
+
+// Checks that memoization doesn't retain objects from garbage collection. The
+// heap may also be explored manually with `npm run profile`.
+
+setFlagsFromString("--expose-gc");
+const gc: () => void = runInNewContext("gc");
+
+test("reactive getters don't retain their holders via dependencies", async () => {
+  class Config {
+    private _v = 1;
+
+    @Memoize()
+    get v(): number {
+      return this._v;
+    }
+
+    set v(value: number) {
+      this._v = value;
+    }
+  }
+
+  const config = new Config();
+
+  class Model {
+    @Memoize({ reactive: true })
+    get total(): number {
+      return config.v * 2;
+    }
+  }
+
+  const readTotal = () => {
+    const model = new Model();
+    model.total;
+    return new WeakRef(model);
+  };
+  const refs: WeakRef<Model>[] = [];
+  for (let i = 0; i < 50; i++) {
+    refs.push(readTotal());
+  }
+
+  const survivor = new Model();
+  expect(survivor.total).toEqual(2);
+
+  await delay(10);
+  gc();
+  expect(refs.filter((ref) => ref.deref()).length).toEqual(0);
+
+  Memoize.clear(config, "v");
+  expect(Memoize.peek(survivor, "total")).toBeUndefined();
+});
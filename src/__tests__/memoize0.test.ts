@@ -1,4 +1,4 @@
-import { memoize0 } from "..";
+import { forget, memoize0 } from "..";
 
 test("memoize0", () => {
   const $tag1 = Symbol("$tag1");
@@ -13,3 +13,45 @@ test("memoize0", () => {
   expect(memoize0(containerB, $tag1, () => n++)).toEqual(1); // -> n=2
   expect(memoize0(containerB, $tag2, () => n++)).toEqual(2); // different tag
 });
+
+test("memoize0 with weakMap backend and frozen objects", () => {
+  const $tag = Symbol("$tag");
+  const container = {};
+  const frozen = Object.freeze({});
+  let n = 0;
+
+  expect(memoize0(container, $tag, () => n++, { backend: "weakMap" })).toEqual(
+    0
+  );
+  expect(memoize0(container, $tag, () => n++)).toEqual(0);
+  expect(Object.getOwnPropertySymbols(container)).toEqual([]);
+
+  expect(memoize0(frozen, $tag, () => n++)).toEqual(1);
+  expect(memoize0(frozen, $tag, () => n++)).toEqual(1);
+});
+
+test("forget", () => {
+  const $tag = Symbol("$tag");
+  const container = {};
+  const frozen = Object.freeze({});
+  let n = 0;
+
+  expect(forget(container, $tag)).toBe(false);
+  expect(memoize0(container, $tag, () => n++)).toEqual(0);
+  expect(memoize0(frozen, $tag, () => n++)).toEqual(1);
+
+  expect(forget(container, $tag)).toBe(true);
+  expect(forget(frozen, $tag)).toBe(true);
+  expect(forget(frozen, $tag)).toBe(false);
+  expect(memoize0(container, $tag, () => n++)).toEqual(2);
+  expect(memoize0(frozen, $tag, () => n++)).toEqual(3);
+});
+
+test("forget doesn't throw for objects frozen after memoizing", () => {
+  const $tag = Symbol("$tag");
+  const container = {};
+  expect(memoize0(container, $tag, () => 42)).toEqual(42);
+  Object.freeze(container);
+  expect(forget(container, $tag)).toBe(false);
+  expect(memoize0(container, $tag, () => 0)).toEqual(42);
+});
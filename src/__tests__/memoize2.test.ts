@@ -1,4 +1,5 @@
-import { memoize2 } from "..";
+import delay from "delay";
+import { memoize2, setDefaultBackend } from "..";
 
 let sequenceValue = 1;
 
@@ -72,3 +73,109 @@ test("memoize2 works for Promise", async () => {
   expect(await funcs[0](10, 10)).not.toEqual(await funcs[0](20, 20));
   expect(await funcs[0](30, 30)).not.toEqual(await funcs[0](40, 40));
 });
+
+test("memoize2 calls hooks", async () => {
+  const $tag = Symbol("$tag");
+  const obj = {};
+  const events: unknown[] = [];
+  const f = memoize2(
+    obj,
+    $tag,
+    async (x: number, y: number) => {
+      if (x < 0) {
+        throw Error("negative");
+      }
+
+      return x + y;
+    },
+    {
+      onHit: (key) => events.push(["hit", key]),
+      onMiss: (key) => events.push(["miss", key]),
+      onEvict: (key) => events.push(["evict", key]),
+      onReject: (key) => events.push(["reject", key]),
+    }
+  );
+
+  await f(1, 2);
+  await f(1, 2);
+  await expect(f(-1, 2)).rejects.toThrow("negative");
+  expect(events).toEqual([
+    ["miss", [1, 2]],
+    ["hit", [1, 2]],
+    ["evict", [1, 2]],
+    ["miss", [-1, 2]],
+    ["reject", [-1, 2]],
+  ]);
+});
+
+test("memoize2 remembers all results with multiSlot", () => {
+  const $tag = Symbol("$tag");
+  const obj = {};
+  const key = {};
+  const f = memoize2(
+    obj,
+    $tag,
+    (x: object, y: number) => ({ uniq: localUniqueInt(), x, y }),
+    { multiSlot: true }
+  );
+
+  const before = f(key, 1);
+  f(key, 2);
+  expect(f(key, 1)).toBe(before);
+  expect(f({}, 1)).not.toBe(before);
+});
+
+test("memoize2 caches errors with onError policy", async () => {
+  const $tag = Symbol("$tag");
+  const obj = {};
+  let count = 0;
+  const f = memoize2(
+    obj,
+    $tag,
+    (x: string, y: number) => {
+      count++;
+      if (x === "sync") {
+        throw Error(`sync ${count}`);
+      }
+
+      return Promise.reject(Error(`async ${count}`));
+    },
+    { onError: { cacheMs: 200, isCacheable: (e) => e instanceof Error } }
+  );
+
+  expect(() => f("sync", 1)).toThrow("sync 1");
+  expect(() => f("sync", 1)).toThrow("sync 1");
+  await delay(300);
+  expect(() => f("sync", 1)).toThrow("sync 2");
+
+  await expect(f("async", 1)).rejects.toThrow("async 3");
+  await expect(f("async", 1)).rejects.toThrow("async 3");
+  await delay(300);
+  await expect(f("async", 1)).rejects.toThrow("async 4");
+  expect(count).toEqual(4);
+});
+
+test("memoize2 doesn't mutate the object with weakMap backend", () => {
+  const $tag1 = Symbol("$tag1");
+  const $tag2 = Symbol("$tag2");
+  const obj = { a: 42 };
+  const sum = (x: number, y: number) => ({
+    uniq: localUniqueInt(),
+    sum: x + y,
+  });
+
+  const f1 = memoize2(obj, $tag1, sum, { backend: "weakMap" });
+  expect(memoize2(obj, $tag1, sum)).toBe(f1);
+  expect(f1(1, 2)).toBe(f1(1, 2));
+
+  setDefaultBackend("weakMap");
+  try {
+    const f2 = memoize2(obj, $tag2, sum);
+    expect(memoize2(obj, $tag2, sum)).toBe(f2);
+    expect(f2).not.toBe(f1);
+  } finally {
+    setDefaultBackend(undefined);
+  }
+
+  expect(Object.getOwnPropertySymbols(obj)).toEqual([]);
+});
@@ -0,0 +1,54 @@
+import delay from "delay";
+import { Memoize } from "..";
+import { memoizeContext } from "../node";
+
+test("memoizes per async context", async () => {
+  let count = 0;
+
+  class Service {
+    @Memoize({ scope: "context" })
+    async currentUser(): Promise<string> {
+      await delay(10);
+      return `user${count++}`;
+    }
+
+    @Memoize({ scope: "context" })
+    double(arg: number): number {
+      count++;
+      return arg * 2;
+    }
+  }
+
+  const service = new Service();
+  const handle = async () => {
+    const [user1, user2] = await Promise.all([
+      service.currentUser(),
+      service.currentUser(),
+    ]);
+    await delay(5);
+    expect(await service.currentUser()).toEqual(user1);
+    return user2;
+  };
+
+  const [userA, userB] = await Promise.all([
+    memoizeContext.run(handle),
+    memoizeContext.run(handle),
+  ]);
+  expect(userA).not.toEqual(userB);
+  expect(count).toEqual(2);
+
+  expect(memoizeContext.isActive()).toBe(false);
+  expect(service.double(1)).toEqual(2);
+  expect(service.double(1)).toEqual(2);
+  expect(count).toEqual(4); // not memoized outside of a context
+
+  memoizeContext.run(() => {
+    expect(memoizeContext.isActive()).toBe(true);
+    service.double(1);
+    service.double(1);
+    expect(count).toEqual(5);
+    memoizeContext.run(() => service.double(1));
+    expect(count).toEqual(6); // nested context is isolated
+    expect(Memoize.peek(service, "double", 1)).toEqual(2);
+  });
+});
@@ -1,5 +1,5 @@
 import delay from "delay";
-import { memoizeExpireUnused } from "..";
+import { ManualClock, memoizeExpireUnused } from "..";
 
 test("expires a key when unused", async () => {
   let count = 0;
@@ -18,3 +18,240 @@ test("expires a key when unused", async () => {
   await delay(1000);
   expect(func("a")).toEqual(1);
 });
+
+test("evicts least recently used keys when maxSize is set", () => {
+  let count = 0;
+  const func = memoizeExpireUnused((_s: string) => count++, { maxSize: 2 });
+  expect(func("a")).toEqual(0);
+  expect(func("b")).toEqual(1);
+  expect(func("a")).toEqual(0);
+  expect(func("c")).toEqual(2); // evicts "b"
+  expect(func("a")).toEqual(0);
+  expect(func("b")).toEqual(3);
+});
+
+test("calls hooks", async () => {
+  const events: string[] = [];
+  const func = memoizeExpireUnused(
+    async (s: string) => {
+      if (s === "bad") {
+        throw Error("bad");
+      }
+
+      return s;
+    },
+    {
+      unusedMs: 50,
+      maxSize: 1,
+      onHit: (key) => events.push(`hit ${key}`),
+      onMiss: (key) => events.push(`miss ${key}`),
+      onEvict: (key) => events.push(`evict ${key}`),
+      onReject: (key) => events.push(`reject ${key}`),
+    }
+  );
+  await func("a");
+  await func("a");
+  await expect(func("bad")).rejects.toThrow("bad");
+  await delay(100);
+  expect(events).toEqual([
+    "miss a",
+    "hit a",
+    "miss bad",
+    "evict a",
+    "reject bad",
+    "evict bad",
+  ]);
+});
+
+test("exports and imports cached results", async () => {
+  let count = 0;
+  const func = memoizeExpireUnused(async (s: string) => {
+    await delay(10);
+    return { s, count: count++ };
+  });
+  await Promise.all([func("a"), func("b")]);
+  const pending = func("pending");
+  const snapshot = func.snapshot();
+  expect(JSON.parse(JSON.stringify(snapshot))).toEqual([
+    { key: "a", value: { s: "a", count: 0 }, async: true },
+    { key: "b", value: { s: "b", count: 1 }, async: true },
+  ]);
+  await pending;
+
+  const restored = memoizeExpireUnused(
+    (_s: string): Promise<unknown> => Promise.resolve("never"),
+    { unusedMs: 1000 }
+  );
+  restored.restore(snapshot);
+  expect(await restored("a")).toEqual({ s: "a", count: 0 });
+  expect(await restored("c")).toEqual("never");
+
+  const withDates = memoizeExpireUnused((s: string) => new Date(s));
+  withDates("2020-01-01");
+  const serializer = {
+    serialize: (value: unknown) => (value as Date).toISOString(),
+    deserialize: (data: unknown) => new Date(data as string),
+  };
+  const copy = memoizeExpireUnused((_s: string) => new Date(0));
+  copy.restore(withDates.snapshot({ serializer }), { serializer });
+  expect(copy("2020-01-01")).toEqual(new Date("2020-01-01"));
+});
+
+test("snapshot skips cached errors", () => {
+  const func = memoizeExpireUnused(
+    (s: string) => {
+      if (s === "bad") {
+        throw Error("bad");
+      }
+
+      return s;
+    },
+    { onError: { cacheMs: 1000 } }
+  );
+  func("good");
+  expect(() => func("bad")).toThrow("bad");
+  expect(func.has("bad")).toBe(true);
+  expect(func.snapshot()).toEqual([{ key: "good", value: "good" }]);
+});
+
+test("caches errors with onError policy and backs off", async () => {
+  let count = 0;
+  const func = memoizeExpireUnused(
+    (s: string) => {
+      count++;
+      if (s === "ok") {
+        return count;
+      }
+
+      throw Error(`error ${count}`);
+    },
+    { onError: { cacheMs: 200, backoff: 3, maxCacheMs: 1000 } }
+  );
+
+  expect(() => func("bad")).toThrow("error 1");
+  expect(() => func("bad")).toThrow("error 1");
+  await delay(300);
+  expect(() => func("bad")).toThrow("error 2"); // now cached for 600 ms
+  await delay(200);
+  expect(() => func("bad")).toThrow("error 2");
+  await delay(500);
+  expect(() => func("bad")).toThrow("error 3");
+  expect(func("ok")).toEqual(4);
+  expect(func("ok")).toEqual(4);
+});
+
+test("clears settled Promises with clearOnReject and clearOnResolve", async () => {
+  let count = 0;
+  const func = memoizeExpireUnused(
+    async (s: string) => {
+      await delay(10);
+      if (s === "bad") {
+        throw Error(`error ${count++}`);
+      }
+
+      return count++;
+    },
+    { clearOnReject: true }
+  );
+  const [r1, r2] = [func("bad"), func("bad")]; // coalesced
+  expect(r1).toBe(r2);
+  await expect(r1).rejects.toThrow("error 0");
+  expect(func.has("bad")).toBe(false);
+  await expect(func("bad")).rejects.toThrow("error 1");
+  expect(await func("ok")).toEqual(2);
+  expect(await func("ok")).toEqual(2);
+
+  const coalescing = memoizeExpireUnused(async () => count++, {
+    clearOnResolve: true,
+  });
+  const [c1, c2] = [coalescing(), coalescing()];
+  expect(c1).toBe(c2);
+  expect(await c1).toEqual(3);
+  expect(await coalescing()).toEqual(4);
+});
+
+test("starts the idle timer when a Promise settles", async () => {
+  let count = 0;
+  const func = memoizeExpireUnused(
+    async (_s: string) => {
+      await delay(300);
+      return count++;
+    },
+    { unusedMs: 100 }
+  );
+  const p1 = func("a");
+  await delay(200); // longer than unusedMs, but still pending
+  expect(func("a")).toBe(p1);
+  expect(await p1).toEqual(0);
+  expect(await func("a")).toEqual(0);
+  await delay(200);
+  expect(await func("a")).toEqual(1);
+});
+
+test("works as a cache object", () => {
+  let count = 0;
+  const func = memoizeExpireUnused((a: string, b: number) => count++, {
+    resolver: (a, b) => `${a}:${b}`,
+    unusedMs: 1000,
+  });
+  func("a", 1);
+  func("b", 2);
+  expect(func.size).toEqual(2);
+  expect(func.has("a", 1)).toBe(true);
+  expect(func.has("a", 2)).toBe(false);
+  expect(func.delete("a", 1)).toBe(true);
+  expect(func.delete("a", 1)).toBe(false);
+  expect(func.size).toEqual(1);
+  expect(func("a", 1)).toEqual(2);
+  func.clear();
+  expect(func.size).toEqual(0);
+  expect(func("b", 2)).toEqual(3);
+});
+
+test("passes this to the resolver in has and delete", () => {
+  const obj = { id: "obj" };
+  const func = memoizeExpireUnused(
+    function (this: { id: string }, s: string) {
+      return `${this.id}:${s}`;
+    },
+    {
+      resolver: function (this: { id: string }, s: string) {
+        return `${this.id}:${s}`;
+      },
+    }
+  );
+  expect(func.call(obj, "a")).toEqual("obj:a");
+  expect(func.has.call(obj, "a")).toBe(true);
+  expect(func.has.call({ id: "other" }, "a")).toBe(false);
+  expect(func.delete.call(obj, "a")).toBe(true);
+  expect(func.size).toEqual(0);
+});
+
+test("expires lazily and sweeps unused keys in batches", () => {
+  const clock = new ManualClock();
+  let count = 0;
+  const evicted: unknown[] = [];
+  const func = memoizeExpireUnused((s: string) => `${s}${count++}`, {
+    unusedMs: 100,
+    clock,
+    onEvict: (key) => evicted.push(key),
+  });
+  func("a");
+  func("b");
+  expect(clock.pendingTimers).toEqual(1); // one sweeper, not a timer per key
+
+  clock.advance(60);
+  expect(func("a")).toEqual("a0");
+  clock.advance(50); // the sweeper removes "b"
+  expect(evicted).toEqual(["b"]);
+  expect(func.size).toEqual(1);
+
+  clock.advance(60); // before the next sweep, but "a" has expired
+  expect(func("a")).toEqual("a2");
+  expect(evicted).toEqual(["b", "a"]);
+
+  clock.advance(200);
+  expect(evicted).toEqual(["b", "a", "a"]);
+  expect(func.size).toEqual(0);
+  expect(clock.pendingTimers).toEqual(0);
+});
@@ -0,0 +1,69 @@
+import { memoizeN } from "..";
+
+test("memoizeN remembers the last results in LRU order", () => {
+  const $tag = Symbol("$tag");
+  const obj = {};
+  const calls: string[] = [];
+  const f = () =>
+    memoizeN(
+      obj,
+      $tag,
+      (a: string, b: number, c: boolean) => {
+        calls.push(`${a}${b}${c}`);
+        return `${a}${b}${c}`;
+      },
+      { slots: 2 }
+    );
+
+  // Alternating between 2 argument lists doesn't thrash.
+  for (let i = 0; i < 3; i++) {
+    expect(f()("a", 1, true)).toEqual("a1true");
+    expect(f()("b", 2, false)).toEqual("b2false");
+  }
+
+  expect(calls).toEqual(["a1true", "b2false"]);
+
+  f()("a", 1, true); // "a" becomes the most recently used
+  f()("c", 3, true); // evicts "b"
+  f()("a", 1, true);
+  f()("b", 2, false);
+  expect(calls).toEqual(["a1true", "b2false", "c3true", "b2false"]);
+});
+
+test("memoizeN replaces slots round-robin and compares arity arguments", () => {
+  const $tag = Symbol("$tag");
+  const obj = {};
+  let count = 0;
+  const f = memoizeN(obj, $tag, (a: number, ..._rest: unknown[]) => count++, {
+    slots: 2,
+    arity: 1,
+    replacement: "round-robin",
+  });
+
+  expect(f(1, "x")).toEqual(0);
+  expect(f(1, "y")).toEqual(0); // only the 1st argument is compared
+  expect(f(2)).toEqual(1);
+  expect(f(1)).toEqual(0); // doesn't make it "recently used"
+  expect(f(3)).toEqual(2); // replaces 1 (the oldest)
+  expect(f(2)).toEqual(1);
+  expect(f(1)).toEqual(3);
+  expect(memoizeN(obj, $tag, (_a: number) => -1)(1)).toEqual(3);
+});
+
+test("memoizeN compares all arguments of rest and default parameters", () => {
+  const obj = {};
+  const join = memoizeN(obj, Symbol("$join"), (...a: number[]) => a.join("+"));
+  expect(join(1, 2)).toEqual("1+2");
+  expect(join(3, 4)).toEqual("3+4");
+  expect(join(3)).toEqual("3");
+  expect(join(3, 4)).toEqual("3+4");
+
+  const add = memoizeN(
+    obj,
+    Symbol("$add"),
+    (a: number, b: number = 0) => a + b
+  );
+  expect(add(1, 2)).toEqual(3);
+  expect(add(1, 5)).toEqual(6);
+  expect(add(1)).toEqual(1);
+});
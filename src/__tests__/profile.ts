@@ -30,6 +30,10 @@ class Cls {
     "largeObject was garbage collected?",
     largeObjectRef.deref() === undefined ? "yes" : "no"
   );
+  console.log(
+    "Memoized values of obj:",
+    JSON.stringify(Memoize.inspect(obj), undefined, 2)
+  );
   console.log(
     "Open chrome://inspect and take a Memory Heap Snapshot. Press ^C when done."
   );
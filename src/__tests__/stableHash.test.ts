@@ -0,0 +1,87 @@
+import { Memoize, memoizeExpireUnused, stableHash } from "..";
+
+test("produces equal keys for structurally equal values", () => {
+  class Dto {
+    constructor(public a: number, public b: string) {}
+  }
+
+  const sym = Symbol("sym");
+  const make = () => ({
+    num: 1,
+    neg: -0,
+    str: "s",
+    big: BigInt(42),
+    nil: null,
+    undef: undefined,
+    arr: [1, "1", [true]],
+    date: new Date(1000),
+    map: new Map<unknown, unknown>([
+      ["x", 1],
+      [{ k: 1 }, [2]],
+    ]),
+    set: new Set([3, 2, 1]),
+    dto: new Dto(1, "b"),
+    sym,
+    [Symbol.for("registered")]: "r",
+  });
+
+  expect(stableHash(make())).toEqual(stableHash(make()));
+  expect(stableHash({ a: 1, b: 2 })).toEqual(stableHash({ b: 2, a: 1 }));
+  expect(stableHash(new Set([1, 2]))).toEqual(stableHash(new Set([2, 1])));
+});
+
+test("distinguishes different values", () => {
+  const pairs: Array<[unknown, unknown]> = [
+    [1, "1"],
+    [0, -0],
+    [null, undefined],
+    [BigInt(1), 1],
+    [
+      ["a#b", "c"],
+      ["a", "b#c"],
+    ],
+    [[1, 2], { 0: 1, 1: 2 }],
+    [{ a: 1 }, { a: 1, b: undefined }],
+    [new Date(1), new Date(2)],
+    [Symbol("a"), Symbol("a")],
+    [new Map([[1, 2]]), new Map([[2, 1]])],
+    [new Set([1]), [1]],
+  ];
+  for (const [a, b] of pairs) {
+    expect(stableHash(a)).not.toEqual(stableHash(b));
+  }
+});
+
+test("handles cyclic references", () => {
+  const a: any = { name: "a" };
+  a.self = a;
+  const b: any = { name: "a" };
+  b.self = b;
+  expect(stableHash(a)).toEqual(stableHash(b));
+
+  const c: any = { name: "a", self: { name: "a" } };
+  c.self.self = c;
+  expect(stableHash(a)).not.toEqual(stableHash(c));
+});
+
+test("works as a hasher and as a resolver", () => {
+  let count = 0;
+
+  class Cls {
+    @Memoize(Memoize.hashers.structural)
+    method2(_arg1: { id: number }, _arg2: string[]) {
+      return count++;
+    }
+  }
+
+  const obj = new Cls();
+  expect(obj.method2({ id: 1 }, ["a"])).toEqual(obj.method2({ id: 1 }, ["a"]));
+  expect(obj.method2({ id: 1 }, ["a"])).not.toEqual(
+    obj.method2({ id: 2 }, ["a"])
+  );
+
+  const func = memoizeExpireUnused((_arg: { id: number }) => count++, {
+    resolver: Memoize.hashers.structural,
+  });
+  expect(func({ id: 1 })).toEqual(func({ id: 1 }));
+});
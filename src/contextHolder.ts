@@ -0,0 +1,36 @@
+/**
+ * Returns the holders of the current async context (see memoizeContext), or
+ * undefined outside of any context. Set by memoizeContext on its first run(),
+ * so this module (and Memoize) doesn't depend on Node's async_hooks.
+ */
+let currentHolders: (() => WeakMap<object, object> | undefined) | undefined;
+
+/**
+ * Registers the function which returns the holders of the current async
+ * context.
+ */
+export function setContextHolders(
+  getter: () => WeakMap<object, object> | undefined
+): void {
+  currentHolders = getter;
+}
+
+/**
+ * Returns the object which keeps the storages of `scope: "context"` methods for
+ * `obj` in the current async context. Outside of any context, returns a new
+ * object each time, so the values are not memoized at all.
+ */
+export function contextHolder(obj: object): object {
+  const holders = currentHolders?.();
+  if (!holders) {
+    return {};
+  }
+
+  let holder = holders.get(obj);
+  if (!holder) {
+    holder = {};
+    holders.set(obj, holder);
+  }
+
+  return holder;
+}
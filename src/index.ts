@@ -1,4 +1,32 @@
-export { Memoize } from "./Memoize";
+export { setDefaultClock, systemClock } from "./Clock";
+export type { Clock } from "./Clock";
+export { Memoize, memoize } from "./Memoize";
+export type {
+  MemoizeCounters,
+  MemoizeFuncOptions,
+  MemoizedFunction,
+  MemoizeInspection,
+  MemoizeOptions,
+  MemoizeStats,
+  MemoizeStorageInspection,
+} from "./Memoize";
+export type { MemoizeErrorPolicy } from "./MemoizeErrorPolicy";
+export type { MemoizeHooks } from "./MemoizeHooks";
+export type {
+  MemoizeSerializer,
+  MemoizeSnapshot,
+  MemoizeSnapshotEntry,
+  MemoizeSnapshotOptions,
+} from "./MemoizeSnapshot";
+export type { MemoizeStore } from "./MemoizeStore";
+export type { MemoizeTags } from "./MemoizeTags";
+export { ManualClock } from "./ManualClock";
+export { MemoryStore } from "./MemoryStore";
 export { memoize0 } from "./memoize0";
 export { memoize2 } from "./memoize2";
 export { memoizeExpireUnused } from "./memoizeExpireUnused";
+export type { MemoizedExpireUnused } from "./memoizeExpireUnused";
+export { memoizeN } from "./memoizeN";
+export { stableHash } from "./stableHash";
+export { forget, setDefaultBackend } from "./tagged";
+export type { MemoizeBackend } from "./tagged";
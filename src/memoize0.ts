@@ -1,20 +1,22 @@
+import { hasTagged, getTagged, setTagged } from "./tagged";
+import type { MemoizeBackend } from "./tagged";
+
 /**
  * Saves the value returned by `func()` in a hidden property `tag` of `obj`
  * object, so next time memoize0() is called, that value will be returned, and
  * `func` won't be called.
+ *
+ * With `backend: "weakMap"` option, `obj` is not mutated (see `MemoizeBackend`).
  */
 export function memoize0<TTag extends symbol, TResult>(
   obj: object,
   tag: TTag,
-  func: () => TResult
+  func: () => TResult,
+  options?: { backend?: MemoizeBackend }
 ): TResult {
-  if (!obj.hasOwnProperty(tag)) {
-    Object.defineProperty(obj, tag, {
-      enumerable: false,
-      writable: false,
-      value: func(),
-    });
+  if (!hasTagged(obj, tag)) {
+    return setTagged(obj, tag, func(), options?.backend);
   }
 
-  return (obj as any)[tag]!;
+  return getTagged(obj, tag) as TResult;
 }
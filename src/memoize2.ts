@@ -1,3 +1,12 @@
+import { ArgsTrie } from "./ArgsTrie";
+import { resolveClock } from "./Clock";
+import type { Clock } from "./Clock";
+import { errorCacheMs } from "./MemoizeErrorPolicy";
+import type { MemoizeErrorPolicy } from "./MemoizeErrorPolicy";
+import type { MemoizeHooks } from "./MemoizeHooks";
+import { getTagged, setTagged } from "./tagged";
+import type { MemoizeBackend } from "./tagged";
+
 /**
  * A simple intrusive 1-slot cache memoization helper for 2 parameters
  * functions. It's useful when we have a very high chance of hit rate and is
@@ -7,31 +16,266 @@
  * This method works seamlessly for async functions too: the returned Promise is
  * eagerly memoized, so all the callers will subscribe to the same Promise.
  *
- * Returns the new memoized function with 2 arguments for the `tag`.
+ * Returns the new memoized function with 2 arguments for the `tag`. The
+ * optional `options` are only taken into account when the function is created
+ * (i.e. on the first call for this `obj` and `tag`). The hooks receive `[arg1,
+ * arg2]` tuples as keys.
+ *
+ * If `multiSlot` option is true, all the results are remembered, not only the
+ * last one. They are stored in a trie of Maps and WeakMaps (so object
+ * arguments are not retained from garbage collection).
+ *
+ * If `onError` policy is passed, errors (both synchronous throws and rejected
+ * Promises) are memoized according to it (e.g. for some time, with exponential
+ * backoff between retries), and the errors it doesn't allow to memoize are
+ * not memoized at all.
+ *
+ * With `backend: "weakMap"` option, `obj` is not mutated (see `MemoizeBackend`).
  */
 export function memoize2<TTag extends symbol, TArg1, TArg2, TResult>(
   obj: object,
   tag: TTag,
-  func: (arg1: TArg1, arg2: TArg2) => TResult
+  func: (arg1: TArg1, arg2: TArg2) => TResult,
+  options?: MemoizeHooks & {
+    multiSlot?: boolean;
+    onError?: MemoizeErrorPolicy;
+    clock?: Clock;
+    backend?: MemoizeBackend;
+  }
 ): typeof func {
-  if (!obj.hasOwnProperty(tag)) {
+  const existing = getTagged(obj, tag);
+  if (existing) {
+    return existing as typeof func;
+  }
+
+  if (options?.onError) {
+    const onError = options.onError;
+    const clock = resolveClock(options.clock);
+    const slots = options.multiSlot ? new ArgsTrie<Slot<TResult>>() : undefined;
+    let lastSlot: Slot<TResult> | undefined;
+    setTagged(
+      obj,
+      tag,
+      (arg1: TArg1, arg2: TArg2) => {
+        const args = [arg1, arg2];
+        let slot = slots
+          ? slots.get(args)
+          : lastSlot?.args[0] === arg1 && lastSlot?.args[1] === arg2
+          ? lastSlot
+          : undefined;
+        let failures: number | undefined;
+        if (slot?.expiresAt !== undefined && slot.expiresAt <= clock.now()) {
+          failures = slot.failures;
+          slot = undefined;
+        }
+
+        if (slot) {
+          options.onHit?.(args);
+          if (slot.thrown) {
+            throw slot.thrown.error;
+          }
+
+          return slot.result;
+        }
+
+        if (lastSlot && !slots) {
+          options.onEvict?.(lastSlot.args);
+        }
+
+        options.onMiss?.(args);
+        slot = { args, result: undefined!, failures };
+        if (slots) {
+          slots.set(args, slot);
+        } else {
+          lastSlot = slot;
+        }
+
+        const forget = slots
+          ? deleteTrieSlot.bind(undefined, slots, slot)
+          : () => {
+              if (lastSlot === slot) {
+                lastSlot = undefined;
+              }
+            };
+        try {
+          slot.result = func(arg1, arg2);
+        } catch (e: unknown) {
+          options.onReject?.(args, e);
+          failSlot(slot, onError, clock, forget, e);
+          throw e;
+        }
+
+        if (slot.result instanceof Promise) {
+          slot.result = slot.result.then(
+            resolveSlot.bind(undefined, slot),
+            rejectSlot.bind(undefined, slot, options, clock, forget)
+          ) as TResult;
+        } else {
+          slot.failures = undefined;
+        }
+
+        return slot.result;
+      },
+      options?.backend
+    );
+  } else if (options?.multiSlot) {
+    const cache = new ArgsTrie<TResult>();
+    const { onHit, onMiss, onReject } = options;
+    setTagged(
+      obj,
+      tag,
+      (arg1: TArg1, arg2: TArg2) => {
+        const args = [arg1, arg2];
+        if (cache.has(args)) {
+          onHit?.(args);
+          return cache.get(args);
+        }
+
+        onMiss?.(args);
+        let result: TResult;
+        try {
+          result = func(arg1, arg2);
+        } catch (e: unknown) {
+          onReject?.(args, e);
+          throw e;
+        }
+
+        if (onReject && result instanceof Promise) {
+          result = result.catch(
+            callOnRejectAndRethrow.bind(undefined, options, args)
+          ) as TResult;
+        }
+
+        cache.set(args, result);
+        return result;
+      },
+      options?.backend
+    );
+  } else {
+    const hooks =
+      options?.onHit || options?.onMiss || options?.onEvict || options?.onReject
+        ? options
+        : undefined;
     let arg1Cache: TArg1;
     let arg2Cache: TArg2;
     let resultCache: TResult;
-    Object.defineProperty(obj, tag, {
-      enumerable: false,
-      writable: false,
-      value: (arg1: TArg1, arg2: TArg2) => {
-        if (arg1Cache !== arg1 || arg2Cache !== arg2) {
-          arg1Cache = arg1;
-          arg2Cache = arg2;
-          resultCache = func(arg1, arg2);
-        }
+    let filled = false;
+    setTagged(
+      obj,
+      tag,
+      hooks
+        ? (arg1: TArg1, arg2: TArg2) => {
+            if (arg1Cache !== arg1 || arg2Cache !== arg2) {
+              if (filled) {
+                hooks.onEvict?.([arg1Cache, arg2Cache]);
+              }
 
-        return resultCache;
-      },
-    });
+              hooks.onMiss?.([arg1, arg2]);
+              filled = true;
+              arg1Cache = arg1;
+              arg2Cache = arg2;
+              try {
+                resultCache = func(arg1, arg2);
+              } catch (e: unknown) {
+                hooks.onReject?.([arg1, arg2], e);
+                throw e;
+              }
+
+              if (hooks.onReject && resultCache instanceof Promise) {
+                resultCache = resultCache.catch(
+                  callOnRejectAndRethrow.bind(undefined, hooks, [arg1, arg2])
+                ) as TResult;
+              }
+            } else {
+              hooks.onHit?.([arg1, arg2]);
+            }
+
+            return resultCache;
+          }
+        : (arg1: TArg1, arg2: TArg2) => {
+            if (arg1Cache !== arg1 || arg2Cache !== arg2) {
+              arg1Cache = arg1;
+              arg2Cache = arg2;
+              resultCache = func(arg1, arg2);
+            }
+
+            return resultCache;
+          },
+      options?.backend
+    );
   }
 
-  return (obj as any)[tag];
+  return getTagged(obj, tag) as typeof func;
+}
+
+/**
+ * A memoized result of a function with `onError` policy.
+ */
+interface Slot<TResult> {
+  args: unknown[];
+  result: TResult;
+  /** The number of consecutive failures: of the previous calls (while the
+   * Promise is pending), or including this one (when the slot memoizes an
+   * error). */
+  failures?: number;
+  /** For a memoized synchronous throw: the error to rethrow. */
+  thrown?: { error: unknown };
+  /** When the memoized error should be forgotten (clock based). */
+  expiresAt?: number;
+}
+
+/**
+ * Memoizes the error in the slot if the policy allows, or forgets the slot.
+ */
+function failSlot(
+  slot: Slot<unknown>,
+  onError: MemoizeErrorPolicy,
+  clock: Clock,
+  forget: () => void,
+  error: unknown,
+  thrown = true
+): void {
+  const failures = (slot.failures ?? 0) + 1;
+  const cacheMs = errorCacheMs(onError, error, failures);
+  if (cacheMs !== undefined) {
+    slot.failures = failures;
+    slot.expiresAt = clock.now() + cacheMs;
+    if (thrown) {
+      slot.thrown = { error };
+    }
+  } else {
+    forget();
+  }
+}
+
+function resolveSlot<T>(slot: Slot<unknown>, value: T): T {
+  slot.failures = undefined;
+  return value;
+}
+
+function rejectSlot(
+  slot: Slot<unknown>,
+  options: MemoizeHooks & { onError?: MemoizeErrorPolicy },
+  clock: Clock,
+  forget: () => void,
+  e: unknown
+): never {
+  options.onReject?.(slot.args, e);
+  failSlot(slot, options.onError!, clock, forget, e, false);
+  throw e;
+}
+
+function deleteTrieSlot(trie: ArgsTrie<Slot<unknown>>, slot: Slot<unknown>) {
+  if (trie.get(slot.args) === slot) {
+    trie.delete(slot.args);
+  }
+}
+
+function callOnRejectAndRethrow(
+  hooks: MemoizeHooks,
+  key: unknown,
+  e: unknown
+): never {
+  hooks.onReject!(key, e);
+  throw e;
 }
@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { setContextHolders } from "./contextHolder";
+
+/**
+ * The values memoized by `@Memoize({ scope: "context" })` methods in one async
+ * context: the holders of their storages, one per `this` object.
+ */
+interface MemoizeContext {
+  holders: WeakMap<object, object>;
+}
+
+/** Created on the first run(), so the module loads on engines without
+ * AsyncLocalStorage (Node < 12.17). */
+let storage: AsyncLocalStorage<MemoizeContext> | undefined;
+
+/**
+ * The entry point of request-scoped memoization (e.g. per HTTP request).
+ */
+export const memoizeContext = {
+  /**
+   * Runs `fn` in a new async context: the values memoized by
+   * `@Memoize({ scope: "context" })` methods and getters during its execution
+   * (including the async continuations it spawns) are isolated to this
+   * context, and are dropped (garbage collected) when it ends. Nested `run()`
+   * calls start their own isolated contexts. Returns the result of `fn`.
+   */
+  run<T>(fn: () => T): T {
+    if (!storage) {
+      storage = new AsyncLocalStorage();
+      setContextHolders(currentHolders);
+    }
+
+    return storage.run({ holders: new WeakMap() }, fn);
+  },
+
+  /**
+   * Returns true if called inside `memoizeContext.run()`.
+   */
+  isActive(): boolean {
+    return storage?.getStore() !== undefined;
+  },
+};
+
+function currentHolders(): WeakMap<object, object> | undefined {
+  return storage?.getStore()?.holders;
+}
@@ -1,46 +1,496 @@
+import { pinClock } from "./Clock";
+import type { Clock } from "./Clock";
+import { LruMap } from "./LruMap";
+import { errorCacheMs } from "./MemoizeErrorPolicy";
+import type { MemoizeErrorPolicy } from "./MemoizeErrorPolicy";
+import type { MemoizeHooks } from "./MemoizeHooks";
+import {
+  isSnapshotKey,
+  restoreEntryValue,
+  snapshotEntry,
+} from "./MemoizeSnapshot";
+import type {
+  MemoizeSnapshotEntry,
+  MemoizeSnapshotOptions,
+} from "./MemoizeSnapshot";
+import { tagEntry } from "./MemoizeTags";
+import type { MemoizeTags } from "./MemoizeTags";
+
+/**
+ * Methods and properties of the function returned by `memoizeExpireUnused()`.
+ */
+export interface MemoizedExpireUnused<
+  TArgs extends unknown[] = unknown[],
+  TThis = unknown
+> {
+  /** Removes all the cached results. */
+  clear(): void;
+  /** Removes the cached result for the arguments (they're passed through
+   * `resolver` as usual, with the same `this`). Returns true if there was such
+   * a result. */
+  delete(this: TThis, ...args: TArgs): boolean;
+  /** Returns true if there is a cached result (maybe a pending Promise) for
+   * the arguments (passed through `resolver` with the same `this`). */
+  has(this: TThis, ...args: TArgs): boolean;
+  /** The number of cached results. */
+  readonly size: number;
+  /** Exports the cached results of primitive (JSON-compatible) keys to a
+   * JSON-compatible structure, skipping pending and rejected Promises and
+   * cached errors. By
+   * default, the results must be JSON-compatible, unless a `serializer` is
+   * passed. */
+  snapshot(options?: MemoizeSnapshotOptions): MemoizeSnapshotEntry[];
+  /** Imports the results exported by `snapshot()`. Each of them then expires
+   * after `unusedMs` of inactivity, as usual. */
+  restore(
+    entries: MemoizeSnapshotEntry[],
+    options?: MemoizeSnapshotOptions
+  ): void;
+}
+
 /**
  * Similar to lodash.memoize(), but auto-expires the cached results after the
  * provided number of inactive milliseconds. Each time we read a cached result,
- * the expiration timer resets.
+ * its idle time starts from scratch. For a Promise, the idle time starts only
+ * when it settles, so a slow call doesn't expire while it's still in progress.
+ *
+ * There are no per-result timers: each result remembers when it was last used,
+ * and expired results are not returned (this is checked on read). To free
+ * memory, a single sweeper timer per cache removes the expired results in
+ * batches, once in `unusedMs` (so an unused result may stay in memory for up
+ * to 2x `unusedMs`). The time source and the timers may be replaced with
+ * `clock` option (or globally, with `setDefaultClock()`).
  *
- * This function is more expensive than lodash.memoize(), because it uses a JS
- * timer under the hood.
+ * If `maxSize` is passed, then at most this number of results are kept: when
+ * the cache grows above it, the least recently used results are removed
+ * (pending Promises are never removed).
+ *
+ * The optional `onHit`, `onMiss`, `onEvict` and `onReject` hooks are called
+ * with the key returned by `resolver` (or the 1st argument).
+ *
+ * By default, synchronous throws are not cached, and Promises are cached
+ * regardless of their outcome. With `clearOnReject` (or `clearOnResolve`)
+ * option, a Promise is removed from the cache as soon as it rejects (or
+ * resolves), the same way as in `@Memoize()`. If `onError` policy is passed,
+ * errors of both kinds are cached according to it (e.g. for some time, with
+ * exponential backoff between retries), and the errors it doesn't allow to
+ * cache are not cached at all.
+ *
+ * With `tags` option (a static list, or a function of the arguments), the
+ * results may be removed with `Memoize.invalidateTag(tag)`, together with the
+ * values of `@Memoize()` methods with the same tag.
+ *
+ * The returned function is also a cache object: it has `clear()`,
+ * `delete(...args)`, `has(...args)` methods and `size` property. The cached
+ * results may be exported with its `snapshot()` method and imported back with
+ * `restore()`.
  */
 export function memoizeExpireUnused<TThis, TArgs extends unknown[], TResult>(
   func: (this: TThis, ...args: TArgs) => TResult,
   {
     resolver,
     unusedMs,
+    maxSize,
+    clearOnReject = false,
+    clearOnResolve = false,
+    clock,
+    onHit,
+    onMiss,
+    onEvict,
+    onReject,
+    onError,
+    tags,
   }: {
     resolver?: (this: TThis, ...args: TArgs) => unknown;
     unusedMs?: number;
-  } = {}
-): typeof func {
-  const cache = new Map<unknown, { result: TResult; timeout?: any }>();
-  return function (this: TThis, ...args: TArgs) {
+    maxSize?: number;
+    clearOnReject?: boolean;
+    clearOnResolve?: boolean;
+    clock?: Clock;
+    onError?: MemoizeErrorPolicy;
+    tags?: MemoizeTags<TThis, TArgs>;
+  } & MemoizeHooks = {}
+): typeof func & MemoizedExpireUnused<TArgs, TThis> {
+  const cache: Cache = {
+    slots:
+      maxSize !== undefined
+        ? new LruMap<unknown, Slot>(
+            maxSize,
+            isSlotSettled,
+            evictSlot.bind(undefined, onEvict)
+          )
+        : new Map<unknown, Slot>(),
+    unusedMs: unusedMs || undefined,
+    clock,
+    sweeper: undefined,
+    clearOnReject,
+    clearOnResolve,
+    onEvict,
+    onError,
+    tags,
+  };
+  const slots = cache.slots;
+  const memoized = function (this: TThis, ...args: TArgs) {
     const key = resolver ? resolver.apply(this, args) : args[0];
 
-    let slot = cache.get(key)!;
-    if (!slot) {
-      const result = func.apply(this, args);
-      slot = { result };
-      cache.set(key, slot);
+    let slot = slots.get(key);
+    let failures: number | undefined;
+    if (slot && (cache.unusedMs || slot.expiresAt !== undefined)) {
+      const now = pinClock(cache).now();
+      if (slot.expiresAt !== undefined && slot.expiresAt <= now) {
+        // A memoized error (see `onError`) has expired.
+        failures = slot.failures;
+        slots.delete(key);
+        slot = undefined;
+      } else if (isSlotUnused(cache, slot, now)) {
+        slots.delete(key);
+        onEvict?.(key);
+        slot = undefined;
+      } else if (slot.usedAt !== undefined) {
+        slot.usedAt = now;
+      }
     }
 
-    if (unusedMs) {
-      if (slot.timeout) {
-        clearTimeout(slot.timeout);
+    if (slot) {
+      if (slots instanceof LruMap) {
+        slots.touch(key);
+      }
+
+      onHit?.(key);
+    } else {
+      onMiss?.(key);
+      let result: TResult;
+      try {
+        result = func.apply(this, args);
+      } catch (e: unknown) {
+        onReject?.(key, e);
+        const errorSlot = onError && failSlot(cache, failures, e);
+        if (errorSlot) {
+          addSlot(cache, key, errorSlot);
+          if (tags) {
+            tagSlot(cache, key, errorSlot, tagsFor(tags, this, args));
+          }
+        }
+
+        throw e;
+      }
+
+      if (onReject && result instanceof Promise) {
+        result = result.catch(
+          callOnRejectAndRethrow.bind(undefined, onReject, key)
+        ) as TResult;
       }
-      slot.timeout = setTimeout(
-        removeMapKey.bind(cache, key),
-        unusedMs
-      ).unref?.();
+
+      slot = { result, failures };
+      if (result instanceof Promise) {
+        slot.pending = true;
+        result.then(
+          resolveSlot.bind(undefined, cache, key, slot),
+          rejectSlot.bind(undefined, cache, key, slot)
+        );
+      } else if (cache.unusedMs) {
+        slot.usedAt = pinClock(cache).now();
+      }
+
+      addSlot(cache, key, slot);
+      if (tags) {
+        tagSlot(cache, key, slot, tagsFor(tags, this, args));
+      }
+    }
+
+    if (slot.thrown) {
+      throw slot.thrown.error;
     }
 
-    return slot.result;
+    return slot.result as TResult;
   };
+  return Object.defineProperties(memoized, {
+    clear: { value: clearCache.bind(undefined, cache) },
+    delete: {
+      value: function (this: TThis, ...args: TArgs) {
+        return deleteKey(cache, resolver, this, args);
+      },
+    },
+    has: {
+      value: function (this: TThis, ...args: TArgs) {
+        return hasKey(cache, resolver, this, args);
+      },
+    },
+    size: { get: cacheSize.bind(undefined, cache) },
+    snapshot: { value: snapshotCache.bind(undefined, cache) },
+    restore: { value: restoreCache.bind(undefined, cache) },
+  }) as typeof func & MemoizedExpireUnused<TArgs, TThis>;
+}
+
+/**
+ * The cached results of a function and its normalized options.
+ */
+interface Cache {
+  slots: Map<unknown, Slot>;
+  unusedMs: number | undefined;
+  clock: Clock | undefined;
+  /** The timer of the next sweep(), if it's scheduled. */
+  sweeper: unknown;
+  clearOnReject: boolean;
+  clearOnResolve: boolean;
+  onEvict: MemoizeHooks["onEvict"];
+  onError: MemoizeErrorPolicy | undefined;
+  tags: MemoizeTags | undefined;
+}
+
+interface Slot {
+  result: unknown;
+  /** True while the Promise is not settled yet. */
+  pending?: boolean;
+  /** When the result was used last time (only when `unusedMs` is set). It's
+   * undefined while the Promise is pending, so the result can't expire until
+   * it settles. */
+  usedAt?: number;
+  /** For a Promise which has resolved: the value it resolved to. */
+  resolved?: { value: unknown };
+  /** The number of consecutive failures: of the previous calls (while the
+   * Promise is pending), or including this one (when the slot caches an
+   * error, see `onError` option). */
+  failures?: number;
+  /** For a cached synchronous throw: the error to rethrow. */
+  thrown?: { error: unknown };
+  /** When the cached error should be forgotten (clock based). */
+  expiresAt?: number;
+}
+
+function isSlotSettled(slot: Slot): boolean {
+  return !slot.pending;
+}
+
+function isSlotUnused(cache: Cache, slot: Slot, now: number): boolean {
+  return (
+    cache.unusedMs !== undefined &&
+    slot.usedAt !== undefined &&
+    slot.usedAt + cache.unusedMs <= now
+  );
+}
+
+function addSlot(cache: Cache, key: unknown, slot: Slot) {
+  cache.slots.set(key, slot);
+  if (cache.unusedMs && cache.sweeper === undefined) {
+    cache.sweeper = pinClock(cache).setTimeout(
+      sweep.bind(undefined, cache),
+      cache.unusedMs
+    );
+  }
+}
+
+/**
+ * Removes the expired results from the cache in one batch and, if there are
+ * still some results, schedules the next sweep.
+ */
+function sweep(cache: Cache) {
+  cache.sweeper = undefined;
+  const now = pinClock(cache).now();
+  for (const [key, slot] of cache.slots) {
+    if (isSlotUnused(cache, slot, now)) {
+      cache.slots.delete(key);
+      cache.onEvict?.(key);
+    }
+  }
+
+  if (cache.slots.size > 0) {
+    cache.sweeper = pinClock(cache).setTimeout(
+      sweep.bind(undefined, cache),
+      cache.unusedMs!
+    );
+  }
+}
+
+/**
+ * Called when a cached Promise resolves: either removes it from the cache (if
+ * `clearOnResolve` is set) or starts its idle time.
+ */
+function resolveSlot(cache: Cache, key: unknown, slot: Slot, value: unknown) {
+  slot.resolved = { value };
+  slot.failures = undefined;
+  settleSlot(cache, key, slot, cache.clearOnResolve);
+}
+
+/**
+ * Called when a cached Promise rejects: with `onError` policy, either caches
+ * the rejection for the time the policy allows, or forgets it. Otherwise,
+ * removes it from the cache (if `clearOnReject` is set) or starts its idle
+ * time.
+ */
+function rejectSlot(cache: Cache, key: unknown, slot: Slot, e: unknown) {
+  if (!cache.onError) {
+    settleSlot(cache, key, slot, cache.clearOnReject);
+    return;
+  }
+
+  const failures = (slot.failures ?? 0) + 1;
+  const cacheMs = errorCacheMs(cache.onError, e, failures);
+  if (cacheMs !== undefined) {
+    slot.failures = failures;
+    slot.expiresAt = pinClock(cache).now() + cacheMs;
+  }
+
+  settleSlot(cache, key, slot, cacheMs === undefined);
+}
+
+function settleSlot(cache: Cache, key: unknown, slot: Slot, clear: boolean) {
+  slot.pending = false;
+  if (cache.unusedMs) {
+    slot.usedAt = pinClock(cache).now();
+  }
+
+  if (clear && cache.slots.get(key) === slot) {
+    cache.slots.delete(key);
+  }
+}
+
+/**
+ * Returns a slot which caches a synchronous throw, or undefined if the policy
+ * doesn't allow to cache it.
+ */
+function failSlot(
+  cache: Cache,
+  prevFailures: number | undefined,
+  error: unknown
+): Slot | undefined {
+  const failures = (prevFailures ?? 0) + 1;
+  const cacheMs = errorCacheMs(cache.onError!, error, failures);
+  if (cacheMs === undefined) {
+    return undefined;
+  }
+
+  const now = pinClock(cache).now();
+  return {
+    result: undefined,
+    usedAt: cache.unusedMs ? now : undefined,
+    thrown: { error },
+    failures,
+    expiresAt: now + cacheMs,
+  };
+}
+
+function clearCache(cache: Cache): void {
+  cache.slots.clear();
+  if (cache.sweeper !== undefined) {
+    pinClock(cache).clearTimeout(cache.sweeper);
+    cache.sweeper = undefined;
+  }
+}
+
+function deleteKey(
+  cache: Cache,
+  resolver: ((...args: any[]) => unknown) | undefined,
+  thisArg: unknown,
+  args: unknown[]
+): boolean {
+  return cache.slots.delete(resolver ? resolver.apply(thisArg, args) : args[0]);
+}
+
+function hasKey(
+  cache: Cache,
+  resolver: ((...args: any[]) => unknown) | undefined,
+  thisArg: unknown,
+  args: unknown[]
+): boolean {
+  const slot = cache.slots.get(
+    resolver ? resolver.apply(thisArg, args) : args[0]
+  );
+  if (!slot) {
+    return false;
+  }
+
+  const now = pinClock(cache).now();
+  return (
+    (slot.expiresAt === undefined || slot.expiresAt > now) &&
+    !isSlotUnused(cache, slot, now)
+  );
+}
+
+function cacheSize(cache: Cache): number {
+  return cache.slots.size;
+}
+
+function snapshotCache(
+  cache: Cache,
+  { serializer }: MemoizeSnapshotOptions = {}
+): MemoizeSnapshotEntry[] {
+  const entries: MemoizeSnapshotEntry[] = [];
+  const now = pinClock(cache).now();
+  for (const [key, slot] of cache.slots) {
+    if (
+      isSnapshotKey(key) &&
+      !slot.thrown &&
+      slot.failures === undefined &&
+      !isSlotUnused(cache, slot, now)
+    ) {
+      const entry = snapshotEntry(slot.result, slot.resolved, serializer);
+      if (entry) {
+        entry.key = key;
+        entries.push(entry);
+      }
+    }
+  }
+
+  return entries;
+}
+
+function restoreCache(
+  cache: Cache,
+  entries: MemoizeSnapshotEntry[],
+  { serializer }: MemoizeSnapshotOptions = {}
+): void {
+  const now = pinClock(cache).now();
+  for (const entry of entries) {
+    const [result, resolved] = restoreEntryValue(entry, serializer);
+    const slot: Slot = {
+      result,
+      resolved,
+      usedAt: cache.unusedMs ? now : undefined,
+    };
+    addSlot(cache, entry.key, slot);
+    if (Array.isArray(cache.tags)) {
+      tagSlot(cache, entry.key, slot, cache.tags);
+    }
+  }
+}
+
+function tagsFor(
+  tags: MemoizeTags,
+  self: unknown,
+  args: unknown[]
+): readonly string[] {
+  return typeof tags === "function" ? tags.apply(self, args) : tags;
+}
+
+function tagSlot(
+  cache: Cache,
+  key: unknown,
+  slot: Slot,
+  tags: readonly string[]
+): void {
+  tagEntry(tags, cache, [key], slot, removeTaggedSlot);
+}
+
+/**
+ * Called by `Memoize.invalidateTag()` for the slots with the tag.
+ */
+function removeTaggedSlot(cache: object, [key]: unknown[], slot: object) {
+  const { slots } = cache as Cache;
+  if (slots.get(key) === slot) {
+    slots.delete(key);
+  }
+}
+
+function evictSlot(onEvict: MemoizeHooks["onEvict"], key: unknown) {
+  onEvict?.(key);
 }
 
-function removeMapKey<TKey>(this: Map<TKey, unknown>, key: TKey) {
-  this.delete(key);
+function callOnRejectAndRethrow(
+  onReject: NonNullable<MemoizeHooks["onReject"]>,
+  key: unknown,
+  e: unknown
+): never {
+  onReject(key, e);
+  throw e;
 }
@@ -0,0 +1,136 @@
+import { getTagged, setTagged } from "./tagged";
+import type { MemoizeBackend } from "./tagged";
+
+/**
+ * A generalization of memoize0() and memoize2() to any number of arguments and
+ * a small fixed number of slots: remembers the results of the last `slots`
+ * distinct argument lists. Like memoize2(), it doesn't create intermediate
+ * maps: the argument lists and results are kept in flat arrays and compared
+ * linearly, which is the fastest way for a handful of slots (e.g. when the
+ * callers alternate between 2-3 argument lists, which would thrash the single
+ * slot of memoize2()).
+ *
+ * By default, all the passed arguments (and their number) are compared to
+ * choose the slot. If `arity` is passed, only the first `arity` arguments are
+ * compared. When all the slots are filled, the new result replaces either the
+ * least recently used one (`replacement: "lru"`, the default), or the oldest
+ * one (`replacement: "round-robin"`, which doesn't reorder the slots on hits
+ * and is thus a bit cheaper).
+ *
+ * With `backend: "weakMap"` option, `obj` is not mutated (see `MemoizeBackend`).
+ *
+ * Returns the new memoized function for the `tag`. The optional `options` are
+ * only taken into account when the function is created (i.e. on the first call
+ * for this `obj` and `tag`).
+ */
+export function memoizeN<TTag extends symbol, TArgs extends unknown[], TResult>(
+  obj: object,
+  tag: TTag,
+  func: (...args: TArgs) => TResult,
+  {
+    slots = 2,
+    arity,
+    replacement = "lru",
+    backend,
+  }: {
+    slots?: number;
+    arity?: number;
+    replacement?: "lru" | "round-robin";
+    backend?: MemoizeBackend;
+  } = {}
+): typeof func {
+  const existing = getTagged(obj, tag);
+  if (existing) {
+    return existing as typeof func;
+  }
+
+  // Slot i has its argument list in keys[i] and its result in results[i]. In
+  // "lru" mode, the slots are ordered from the most recently used one.
+  const keys: TArgs[] = new Array(slots);
+  const results: TResult[] = new Array(slots);
+  const lru = replacement === "lru";
+  let size = 0;
+  let next = 0;
+  return setTagged(
+    obj,
+    tag,
+    (...args: TArgs) => {
+      for (let i = 0; i < size; i++) {
+        if (sameArgs(keys[i], args, arity)) {
+          if (lru && i > 0) {
+            moveSlot(keys, results, i, 0);
+          }
+
+          return results[lru ? 0 : i];
+        }
+      }
+
+      const result = func(...args);
+      let i: number;
+      if (lru) {
+        // Shift all the slots (dropping the last one if they're all filled)
+        // and put the new one first.
+        size = Math.min(size + 1, slots);
+        moveSlot(keys, results, size - 1, 0);
+        i = 0;
+      } else {
+        i = next;
+        next = (next + 1) % slots;
+        size = Math.max(size, i + 1);
+      }
+
+      // The rest parameter array is never exposed, so it's safe to keep.
+      keys[i] = args;
+      results[i] = result;
+      return result;
+    },
+    backend
+  );
+}
+
+/**
+ * Compares the first `arity` arguments of the lists, or all of them (and their
+ * number) if `arity` is undefined.
+ */
+function sameArgs(
+  key: unknown[],
+  args: unknown[],
+  arity: number | undefined
+): boolean {
+  if (arity === undefined) {
+    if (key.length !== args.length) {
+      return false;
+    }
+
+    arity = args.length;
+  }
+
+  for (let j = 0; j < arity; j++) {
+    if (key[j] !== args[j]) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Moves slot `from` to position `to` (to <= from), shifting the slots in
+ * between one position further. Doesn't allocate anything.
+ */
+function moveSlot(
+  keys: unknown[],
+  results: unknown[],
+  from: number,
+  to: number
+): void {
+  const key = keys[from];
+  const result = results[from];
+  for (let k = from; k > to; k--) {
+    keys[k] = keys[k - 1];
+    results[k] = results[k - 1];
+  }
+
+  keys[to] = key;
+  results[to] = result;
+}
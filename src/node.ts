@@ -0,0 +1,2 @@
+export { FileStore } from "./FileStore";
+export { memoizeContext } from "./memoizeContext";
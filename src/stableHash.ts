@@ -0,0 +1,109 @@
+/**
+ * Returns a canonical string key of a value, so that structurally equal values
+ * produce equal keys: e.g. `stableHash({ a: 1, b: [2] }) === stableHash({ b:
+ * [2], a: 1 })`. Supports primitives (including bigint and symbols), plain
+ * objects and class instances (own enumerable keys are sorted), arrays, Dates,
+ * RegExps, Maps and Sets. Cyclic references are encoded as back-references to
+ * the ancestor, so they don't cause infinite recursion.
+ *
+ * Functions and non-registered symbols can't be compared structurally, so
+ * they're keyed by identity (note that such symbols are retained in memory).
+ */
+export function stableHash(value: unknown): string {
+  return hashValue(value, []);
+}
+
+const identityIds = new WeakMap<object, number>();
+const symbolIds = new Map<symbol, number>();
+let nextId = 0;
+
+function hashValue(value: unknown, ancestors: object[]): string {
+  switch (typeof value) {
+    case "undefined":
+      return "u";
+    case "boolean":
+      return value ? "t" : "f";
+    case "number":
+      return Object.is(value, -0) ? "d:-0" : `d:${value}`;
+    case "bigint":
+      return `i:${value}`;
+    case "string":
+      return JSON.stringify(value);
+    case "symbol":
+      return hashSymbol(value);
+    case "function":
+      return `F:${identityId(value)}`;
+  }
+
+  if (value === null) {
+    return "n";
+  }
+
+  const obj = value as object;
+  const depth = ancestors.indexOf(obj);
+  if (depth >= 0) {
+    return `^${ancestors.length - depth}`;
+  }
+
+  ancestors.push(obj);
+  try {
+    if (Array.isArray(obj)) {
+      return `[${obj.map((v) => hashValue(v, ancestors)).join(",")}]`;
+    } else if (obj instanceof Date) {
+      return `D:${obj.getTime()}`;
+    } else if (obj instanceof RegExp) {
+      return `R:${obj}`;
+    } else if (obj instanceof Map) {
+      const entries = [...obj].map(
+        ([k, v]) => `${hashValue(k, ancestors)}=>${hashValue(v, ancestors)}`
+      );
+      return `M{${entries.sort().join(",")}}`;
+    } else if (obj instanceof Set) {
+      const items = [...obj].map((v) => hashValue(v, ancestors));
+      return `S{${items.sort().join(",")}}`;
+    } else {
+      const proto = Object.getPrototypeOf(obj);
+      const name =
+        proto === null || proto === Object.prototype
+          ? ""
+          : proto.constructor?.name ?? "?";
+      const props = Reflect.ownKeys(obj)
+        .filter((k) => Object.prototype.propertyIsEnumerable.call(obj, k))
+        .map(
+          (k) =>
+            `${hashValue(k, ancestors)}:${hashValue(
+              (obj as any)[k],
+              ancestors
+            )}`
+        );
+      return `${name}{${props.sort().join(",")}}`;
+    }
+  } finally {
+    ancestors.pop();
+  }
+}
+
+function hashSymbol(symbol: symbol): string {
+  const key = Symbol.keyFor(symbol);
+  if (key !== undefined) {
+    return `y:${JSON.stringify(key)}`;
+  }
+
+  let id = symbolIds.get(symbol);
+  if (id === undefined) {
+    id = nextId++;
+    symbolIds.set(symbol, id);
+  }
+
+  return `Y:${id}`;
+}
+
+function identityId(obj: object): number {
+  let id = identityIds.get(obj);
+  if (id === undefined) {
+    id = nextId++;
+    identityIds.set(obj, id);
+  }
+
+  return id;
+}
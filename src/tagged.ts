@@ -0,0 +1,87 @@
+/**
+ * Where memoize0(), memoize2() and memoizeN() keep their values for `obj` and
+ * `tag`:
+ * - `"property"`: in a hidden (non-enumerable) property `tag` of `obj`; this is
+ *   the fastest way;
+ * - `"weakMap"`: in a module-level WeakMap keyed by `obj`, so `obj` is not
+ *   mutated (this works for frozen objects and for objects we shouldn't touch,
+ *   and `obj` is still not retained from garbage collection).
+ *
+ * Objects which are not extensible (frozen, sealed etc.) always use
+ * `"weakMap"`.
+ */
+export type MemoizeBackend = "property" | "weakMap";
+
+let defaultBackend: MemoizeBackend = "property";
+
+const weakValues = new WeakMap<object, Map<symbol, unknown>>();
+
+/**
+ * Sets the backend used by memoize0(), memoize2() and memoizeN() when it's not
+ * passed explicitly in their options (pass undefined to return to
+ * `"property"`).
+ */
+export function setDefaultBackend(backend: MemoizeBackend | undefined): void {
+  defaultBackend = backend ?? "property";
+}
+
+/**
+ * Removes the value memoized for `obj` and `tag` by memoize0(), memoize2() or
+ * memoizeN() (no matter what backend was used), so the next call will create
+ * it from scratch. Returns true if there was such a value. If `obj` has been
+ * frozen or sealed after the value was memoized in its property, the value
+ * can't be removed, and false is returned.
+ */
+export function forget(obj: object, tag: symbol): boolean {
+  const descriptor = Object.getOwnPropertyDescriptor(obj, tag);
+  if (descriptor) {
+    return !!descriptor.configurable && delete (obj as any)[tag];
+  }
+
+  return weakValues.get(obj)?.delete(tag) ?? false;
+}
+
+/**
+ * Returns true if there is a value for `obj` and `tag` in any of the backends.
+ */
+export function hasTagged(obj: object, tag: symbol): boolean {
+  return obj.hasOwnProperty(tag) || !!weakValues.get(obj)?.has(tag);
+}
+
+/**
+ * Returns the value for `obj` and `tag`, or undefined if there is no value.
+ */
+export function getTagged(obj: object, tag: symbol): unknown {
+  return obj.hasOwnProperty(tag)
+    ? (obj as any)[tag]
+    : weakValues.get(obj)?.get(tag);
+}
+
+/**
+ * Saves the value for `obj` and `tag` in the backend and returns it.
+ */
+export function setTagged<T>(
+  obj: object,
+  tag: symbol,
+  value: T,
+  backend: MemoizeBackend = defaultBackend
+): T {
+  if (backend === "property" && Object.isExtensible(obj)) {
+    Object.defineProperty(obj, tag, {
+      configurable: true, // to be able to forget() it
+      enumerable: false,
+      writable: false,
+      value,
+    });
+  } else {
+    let values = weakValues.get(obj);
+    if (!values) {
+      values = new Map();
+      weakValues.set(obj, values);
+    }
+
+    values.set(tag, value);
+  }
+
+  return value;
+}